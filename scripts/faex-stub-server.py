@@ -0,0 +1,307 @@
+#!/usr/bin/env python3
+"""
+Stand-in for the faex CLI, for trying the extension without the real tool.
+
+Finds FastAPI-style endpoints (`@router.get("/path", exceptions=[...])`) and the
+exceptions they raise directly or through functions of the same module. It speaks
+the same protocols as faex:
+
+    faex-stub-server.py --version
+    faex-stub-server.py check <path> --format json [--depth N] [--ignore EXCEPTION]...
+    faex-stub-server.py serve --stdio
+
+Point `faex.faexPath` at this script to use it.
+"""
+
+import ast
+import json
+import os
+import sys
+
+VERSION = "0.1.0"
+HTTP_METHODS = {"get", "post", "put", "patch", "delete", "head", "options"}
+SKIPPED_DIRS = {".git", ".venv", "venv", "node_modules", "__pycache__"}
+
+
+def exception_name(node):
+    """Class name of a raised expression: `Foo`, `Foo(...)` or `errors.Foo(...)`"""
+    if isinstance(node, ast.Call):
+        node = node.func
+    if isinstance(node, ast.Name):
+        return node.id
+    if isinstance(node, ast.Attribute):
+        return node.attr
+    return None
+
+
+def direct_raises(function):
+    """Raise sites and called names in the body of a function"""
+    raises = []
+    calls = []
+    for node in ast.walk(function):
+        if isinstance(node, ast.Raise) and node.exc is not None:
+            name = exception_name(node.exc)
+            if name:
+                raises.append((name, node.lineno))
+        elif isinstance(node, ast.Call) and isinstance(node.func, ast.Name):
+            calls.append(node.func.id)
+    return raises, calls
+
+
+def find_endpoint(function):
+    """Method, path and declared exceptions of an endpoint decorator, if any"""
+    for decorator in function.decorator_list:
+        if not (
+            isinstance(decorator, ast.Call)
+            and isinstance(decorator.func, ast.Attribute)
+            and decorator.func.attr in HTTP_METHODS
+        ):
+            continue
+        path = ""
+        if decorator.args and isinstance(decorator.args[0], ast.Constant):
+            path = str(decorator.args[0].value)
+        declared = []
+        for keyword in decorator.keywords:
+            if keyword.arg == "exceptions" and isinstance(keyword.value, (ast.List, ast.Tuple)):
+                declared = [name for name in map(exception_name, keyword.value.elts) if name]
+        return decorator.func.attr.upper(), path, declared, decorator.lineno
+    return None
+
+
+def analyze_source(file_path, source, depth):
+    """Analyze one file; returns (endpoints, errors)"""
+    try:
+        tree = ast.parse(source, filename=file_path)
+    except SyntaxError as error:
+        return [], [f"{file_path}:{error.lineno or 1}: {error.msg}"]
+
+    functions = {
+        node.name: node
+        for node in tree.body
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef))
+    }
+    endpoints = []
+
+    for node in ast.walk(tree):
+        if not isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
+            continue
+        endpoint = find_endpoint(node)
+        if not endpoint:
+            continue
+        method, path, declared, line = endpoint
+
+        detected = []
+        seen = set()
+        queue = [(node, None, 0)]
+        while queue:
+            function, in_function, level = queue.pop(0)
+            raises, calls = direct_raises(function)
+            for name, raise_line in raises:
+                detected.append(
+                    {"class": name, "file": file_path, "line": raise_line, "in_function": in_function}
+                )
+            if level >= depth:
+                continue
+            for call in calls:
+                if call in functions and call not in seen and functions[call] is not node:
+                    seen.add(call)
+                    queue.append((functions[call], call, level + 1))
+
+        endpoints.append(
+            {
+                "file": file_path,
+                "line": line,
+                "function": node.name,
+                "method": method,
+                "path": path,
+                "declared_exceptions": declared,
+                "undeclared_exceptions": [e for e in detected if e["class"] not in declared],
+                "detected_exceptions": detected,
+            }
+        )
+
+    return endpoints, []
+
+
+def make_output(endpoints, errors):
+    return {
+        "schema_version": 1,
+        "summary": {
+            "total_endpoints": len(endpoints),
+            "endpoints_with_issues": sum(1 for e in endpoints if e["undeclared_exceptions"]),
+            "total_undeclared": sum(len(e["undeclared_exceptions"]) for e in endpoints),
+        },
+        "endpoints": endpoints,
+        "errors": errors,
+    }
+
+
+def without_ignored(output, ignore):
+    """Drop exceptions whose class is in `ignore`, like faex's --ignore"""
+    if not ignore:
+        return output
+
+    def keep(exceptions):
+        return [e for e in exceptions if e["class"] not in ignore]
+
+    endpoints = [
+        {
+            **endpoint,
+            "undeclared_exceptions": keep(endpoint["undeclared_exceptions"]),
+            "detected_exceptions": keep(endpoint["detected_exceptions"]),
+        }
+        for endpoint in output["endpoints"]
+    ]
+    return make_output(endpoints, output["errors"])
+
+
+class Analyzer:
+    """Analyzes files, keeping results of unchanged files in memory"""
+
+    def __init__(self):
+        self.results = {}
+
+    def analyze_file(self, file_path, depth, content=None):
+        if content is not None:
+            return analyze_source(file_path, content, depth)
+
+        try:
+            mtime = os.stat(file_path).st_mtime
+        except OSError as error:
+            return [], [f"{file_path}:1: {error.strerror}"]
+
+        cached = self.results.get(file_path)
+        if cached and cached[0] == (mtime, depth):
+            return cached[1]
+
+        with open(file_path, encoding="utf-8") as file:
+            result = analyze_source(file_path, file.read(), depth)
+        self.results[file_path] = ((mtime, depth), result)
+        return result
+
+    def analyze_path(self, root, depth, ignore):
+        if os.path.isfile(root):
+            return without_ignored(make_output(*self.analyze_file(root, depth)), ignore)
+
+        endpoints = []
+        errors = []
+        for directory, dirs, files in os.walk(root):
+            dirs[:] = sorted(d for d in dirs if d not in SKIPPED_DIRS)
+            for name in sorted(files):
+                file_path = os.path.join(directory, name)
+                if name.endswith(".py"):
+                    file_endpoints, file_errors = self.analyze_file(file_path, depth)
+                    endpoints.extend(file_endpoints)
+                    errors.extend(file_errors)
+        return without_ignored(make_output(endpoints, errors), ignore)
+
+    def invalidate(self, file_path):
+        self.results.pop(file_path, None)
+
+
+def check(args):
+    path = None
+    depth = 3
+    ignore = []
+    i = 0
+    while i < len(args):
+        if args[i] == "--depth":
+            depth = int(args[i + 1])
+            i += 1
+        elif args[i] == "--ignore":
+            ignore.append(args[i + 1])
+            i += 1
+        elif args[i] == "--format":
+            i += 1
+        elif path is None:
+            path = args[i]
+        i += 1
+
+    if path is None:
+        print("usage: faex check <path> --format json", file=sys.stderr)
+        return 2
+    print(json.dumps(Analyzer().analyze_path(os.path.abspath(path), depth, ignore)))
+    return 0
+
+
+def serve():
+    """JSON-RPC 2.0 over stdio, one message per line"""
+    analyzer = Analyzer()
+
+    def respond(message_id, result=None, error=None):
+        response = {"jsonrpc": "2.0", "id": message_id}
+        if error:
+            response["error"] = error
+        else:
+            response["result"] = result
+        sys.stdout.write(json.dumps(response) + "\n")
+        sys.stdout.flush()
+
+    for line in sys.stdin:
+        if not line.strip():
+            continue
+        try:
+            message = json.loads(line)
+        except json.JSONDecodeError as error:
+            respond(None, error={"code": -32700, "message": f"Parse error: {error}"})
+            continue
+
+        message_id = message.get("id")
+        method = message.get("method")
+        params = message.get("params") or {}
+
+        # Requests are answered in order, so there is nothing left to cancel
+        if method == "$/cancelRequest":
+            continue
+        if method == "shutdown":
+            if message_id is not None:
+                respond(message_id)
+            return 0
+
+        try:
+            if method == "initialize":
+                result = {"version": VERSION}
+            elif method == "analyze-file":
+                depth = params.get("depth", 3)
+                result = without_ignored(
+                    make_output(*analyzer.analyze_file(params["path"], depth, params.get("content"))),
+                    params.get("ignore", []),
+                )
+            elif method == "analyze-workspace":
+                result = analyzer.analyze_path(
+                    params["root"], params.get("depth", 3), params.get("ignore", [])
+                )
+            elif method == "invalidate-file":
+                analyzer.invalidate(params["path"])
+                result = None
+            else:
+                if message_id is not None:
+                    respond(message_id, error={"code": -32601, "message": f"Unknown method: {method}"})
+                continue
+        except KeyError as error:
+            respond(message_id, error={"code": -32602, "message": f"Missing parameter: {error}"})
+            continue
+        except Exception as error:  # noqa: BLE001 - reported to the client
+            respond(message_id, error={"code": -32603, "message": str(error)})
+            continue
+
+        if message_id is not None:
+            respond(message_id, result)
+
+    return 0
+
+
+def main(argv):
+    if argv[:1] == ["--version"]:
+        print(f"faex {VERSION} (stub)")
+        return 0
+    if argv[:1] == ["check"]:
+        return check(argv[1:])
+    if argv[:1] == ["serve"]:
+        return serve()
+    print("usage: faex {--version | check <path> --format json | serve --stdio}", file=sys.stderr)
+    return 2
+
+
+if __name__ == "__main__":
+    sys.exit(main(sys.argv[1:]))
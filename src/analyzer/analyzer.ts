@@ -1,14 +1,54 @@
 import * as vscode from "vscode"
-import { runFaexCli, FaexEndpoint } from "./cli"
-import { EndpointInfo, ExceptionLocation, AnalysisResult } from "../types"
-import { getConfig, shouldExcludeFile } from "../utils/config"
+import * as path from "path"
+import {
+  runFaexCli,
+  runFaexCliOnContent,
+  runFaexCliOnWorkspace,
+  FaexCancelledError,
+  FaexEndpoint,
+  FaexException,
+  FaexRunError,
+  FaexTimeoutError,
+} from "./cli"
+import {
+  EndpointInfo,
+  ExceptionLocation,
+  AnalysisResult,
+  AnalysisError,
+  RedundantDeclaration,
+  formatRoute,
+} from "../types"
+import { getConfig, getWorkspaceFolder, shouldExcludeFile } from "../utils/config"
+import { parseExceptionsList } from "../utils/exceptionsList"
+import { SourceDocument, createSourceDocument } from "../utils/sourceDocument"
+import { computeContextHash, getAnalysisCache, hashContent } from "./cache"
+import { analyzeFileWithServer, analyzeWorkspaceWithServer } from "./server"
+import { RouteConflict } from "./routeConflicts"
+
+/**
+ * Convert a faex CLI exception to an internal exception location
+ */
+function convertException(exc: FaexException): ExceptionLocation {
+  return {
+    file: exc.file,
+    line: exc.line,
+    column: 0,
+    exceptionClass: exc.class,
+    inFunction: exc.in_function || undefined,
+  }
+}
 
 /**
  * Convert faex CLI output to internal types
  */
 function convertEndpoint(faexEndpoint: FaexEndpoint): EndpointInfo {
+  const folder = getWorkspaceFolder(faexEndpoint.file)
+  const undeclared = faexEndpoint.undeclared_exceptions.map(convertException)
+  const detected = faexEndpoint.detected_exceptions?.map(convertException)
+
   return {
     file: faexEndpoint.file,
+    workspaceFolder: folder?.name,
     line: faexEndpoint.line,
     column: 0,
     functionName: faexEndpoint.function,
@@ -16,85 +56,155 @@ function convertEndpoint(faexEndpoint: FaexEndpoint): EndpointInfo {
     path: faexEndpoint.path,
     decoratorLine: faexEndpoint.line, // faex doesn't provide this separately
     declaredExceptions: faexEndpoint.declared_exceptions,
-    detectedExceptions: [], // Not provided by faex JSON directly
+    // Older faex versions only report undeclared exceptions
+    detectedExceptions: detected ?? undeclared,
+    detectionComplete: detected !== undefined,
     // Store undeclared exceptions for diagnostics
-    _undeclaredExceptions: faexEndpoint.undeclared_exceptions.map(
-      (exc): ExceptionLocation => ({
-        file: exc.file,
-        line: exc.line,
-        column: 0,
-        exceptionClass: exc.class,
-        inFunction: exc.in_function || undefined,
-      })
-    ),
+    _undeclaredExceptions: undeclared,
+    exceptionBases: faexEndpoint.exception_bases,
+  }
+}
+
+/**
+ * Fill in source positions that faex doesn't report
+ */
+export function locateInDocument(endpoint: EndpointInfo, document: SourceDocument): EndpointInfo {
+  const list = parseExceptionsList(document, endpoint)
+  return list ? { ...endpoint, exceptionsLine: list.line } : endpoint
+}
+
+/**
+ * Convert a failed run into an analysis result
+ * Cancelled runs produce an empty result; callers check their token
+ */
+function failedResult(file: string, error: unknown): AnalysisResult {
+  if (error instanceof FaexCancelledError) {
+    return { endpoints: [], errors: [] }
+  }
+
+  let analysisError: AnalysisError
+  if (error instanceof FaexTimeoutError) {
+    analysisError = {
+      file,
+      message: `faex analysis timed out after ${error.timeoutSeconds}s`,
+      code: "timeout",
+    }
+  } else if (error instanceof FaexRunError) {
+    analysisError = { file, message: error.message, code: "failed", details: error.output }
+  } else {
+    analysisError = {
+      file,
+      message: `Failed to analyze: ${error instanceof Error ? error.message : "Unknown error"}`,
+      code: "failed",
+    }
   }
+
+  return { endpoints: [], errors: [analysisError] }
+}
+
+/**
+ * Convert an error reported in faex output, e.g. `app/users.py:12: invalid syntax`
+ * Errors without a file are attributed to the analyzed path
+ */
+function convertError(message: string, analyzedPath: string): AnalysisError {
+  const match = message.match(/^(.+?\.pyi?):(\d+)(?::\d+)?:\s*(.*)$/s)
+  if (!match) {
+    return { file: analyzedPath, message, code: "faex", details: message }
+  }
+
+  const file = path.isAbsolute(match[1])
+    ? match[1]
+    : path.join(getWorkspaceFolder(analyzedPath)?.uri.fsPath ?? "", match[1])
+  return { file, line: Number(match[2]), message: match[3], code: "faex", details: message }
+}
+
+/**
+ * Check if an error means the run produced no result
+ */
+export function isRunFailure(error: AnalysisError): boolean {
+  return error.code === "timeout" || error.code === "failed"
 }
 
 /**
  * Analyzes FastAPI endpoints using faex CLI
  */
 export class EndpointAnalyzer {
-  private cache: Map<string, EndpointInfo[]> = new Map()
-
   /**
    * Analyze a single document using faex CLI
    */
-  async analyzeDocument(document: vscode.TextDocument): Promise<AnalysisResult> {
-    const config = getConfig()
+  async analyzeDocument(
+    document: SourceDocument,
+    token?: vscode.CancellationToken
+  ): Promise<AnalysisResult> {
+    const config = getConfig(document.uri)
 
     if (shouldExcludeFile(document.uri.fsPath, config)) {
       return { endpoints: [], errors: [] }
     }
 
-    // Save the document first to ensure faex sees the latest content
-    if (document.isDirty) {
-      await document.save()
-    }
-
     try {
-      const result = await runFaexCli(document.uri.fsPath)
+      const contentHash = hashContent(document.getText())
+      const contextHash = await computeContextHash(document.uri.fsPath)
+
+      // Analyze the in-memory buffer so unsaved changes are seen without saving;
+      // use the faex server when it is available and start faex otherwise
+      const content = document.isDirty ? document.getText() : undefined
+      const result =
+        (await analyzeFileWithServer(document.uri.fsPath, content, token)) ??
+        (content !== undefined
+          ? await runFaexCliOnContent(document.uri.fsPath, content, token)
+          : await runFaexCli(document.uri.fsPath, { token }))
 
       if (!result) {
         return { endpoints: [], errors: [] }
       }
 
-      const endpoints = result.endpoints.map(convertEndpoint)
+      const endpoints = result.endpoints
+        .map(convertEndpoint)
+        .map((endpoint) => locateInDocument(endpoint, document))
+      const errors = result.errors.map((msg) => convertError(msg, document.uri.fsPath))
 
       // Cache the results
-      this.cache.set(document.uri.fsPath, endpoints)
+      await getAnalysisCache().set(document.uri.fsPath, contentHash, contextHash, endpoints, errors)
 
-      return {
-        endpoints,
-        errors: result.errors.map((msg) => ({
-          file: document.uri.fsPath,
-          message: msg,
-        })),
-      }
+      return { endpoints, errors }
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error"
-      return {
-        endpoints: [],
-        errors: [
-          {
-            file: document.uri.fsPath,
-            message: `Failed to analyze: ${message}`,
-          },
-        ],
-      }
+      return failedResult(document.uri.fsPath, error)
     }
   }
 
   /**
-   * Analyze entire workspace using faex CLI
+   * Analyze workspace folders using faex CLI (every folder by default)
    */
-  async analyzeWorkspace(): Promise<AnalysisResult> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
-    if (!workspaceFolder) {
-      return { endpoints: [], errors: [] }
+  async analyzeWorkspace(
+    folders: readonly vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders ?? [],
+    token?: vscode.CancellationToken
+  ): Promise<AnalysisResult> {
+    const combined: AnalysisResult = { endpoints: [], errors: [] }
+
+    for (const folder of folders) {
+      if (token?.isCancellationRequested) {
+        break
+      }
+      const result = await this.analyzeFolder(folder, token)
+      combined.endpoints.push(...result.endpoints)
+      combined.errors.push(...result.errors)
     }
 
+    return combined
+  }
+
+  /**
+   * Analyze a single workspace folder using faex CLI
+   */
+  private async analyzeFolder(
+    workspaceFolder: vscode.WorkspaceFolder,
+    token?: vscode.CancellationToken
+  ): Promise<AnalysisResult> {
     try {
-      const result = await runFaexCli(workspaceFolder.uri.fsPath)
+      const result =
+        (await analyzeWorkspaceWithServer(workspaceFolder, token)) ??
+        (await runFaexCliOnWorkspace(workspaceFolder, token))
 
       if (!result) {
         return { endpoints: [], errors: [] }
@@ -109,36 +219,62 @@ export class EndpointAnalyzer {
         list.push(endpoint)
         byFile.set(endpoint.file, list)
       }
+      // The run used the folder's settings; files under a nested pyproject.toml with
+      // other settings would never hit the cache, so they aren't stored
+      const contextHash = await computeContextHash(workspaceFolder.uri.fsPath)
       for (const [file, eps] of byFile) {
-        this.cache.set(file, eps)
+        if ((await computeContextHash(file)) === contextHash) {
+          await this.cacheFileResult(file, contextHash, eps)
+        }
       }
 
       return {
         endpoints,
-        errors: result.errors.map((msg) => ({
-          file: workspaceFolder.uri.fsPath,
-          message: msg,
-        })),
+        errors: result.errors.map((msg) => convertError(msg, workspaceFolder.uri.fsPath)),
       }
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error"
-      return {
-        endpoints: [],
-        errors: [
-          {
-            file: workspaceFolder.uri.fsPath,
-            message: `Failed to analyze: ${message}`,
-          },
-        ],
-      }
+      return failedResult(workspaceFolder.uri.fsPath, error)
     }
   }
 
   /**
-   * Get cached endpoints for a file
+   * Cache the result of one file from a workspace run, hashing the content faex read on disk
    */
-  getCachedEndpoints(filePath: string): EndpointInfo[] | undefined {
-    return this.cache.get(filePath)
+  private async cacheFileResult(
+    file: string,
+    contextHash: string,
+    endpoints: EndpointInfo[]
+  ): Promise<void> {
+    try {
+      const uri = vscode.Uri.file(file)
+      const text = new TextDecoder("utf-8").decode(await vscode.workspace.fs.readFile(uri))
+      const document = createSourceDocument(uri, text)
+      await getAnalysisCache().set(
+        file,
+        hashContent(text),
+        contextHash,
+        endpoints.map((endpoint) => locateInDocument(endpoint, document))
+      )
+    } catch {
+      // File was removed since the run
+      getAnalysisCache().delete(file)
+    }
+  }
+
+  /**
+   * Get the cached result of a document's current content, if any
+   */
+  async getCachedResult(document: SourceDocument): Promise<AnalysisResult | undefined> {
+    const config = getConfig(document.uri)
+    if (shouldExcludeFile(document.uri.fsPath, config)) {
+      return undefined
+    }
+
+    return getAnalysisCache().get(
+      document.uri.fsPath,
+      hashContent(document.getText()),
+      await computeContextHash(document.uri.fsPath)
+    )
   }
 
   /**
@@ -146,9 +282,9 @@ export class EndpointAnalyzer {
    */
   clearCache(filePath?: string): void {
     if (filePath) {
-      this.cache.delete(filePath)
+      getAnalysisCache().delete(filePath)
     } else {
-      this.cache.clear()
+      getAnalysisCache().clear()
     }
   }
 
@@ -167,42 +303,317 @@ export class EndpointAnalyzer {
 
 /**
  * Create a diagnostic from an undeclared exception
+ * Exceptions raised in another file or a called function are reported on the
+ * endpoint, with related information pointing to the call and the raise site
  */
 export function createDiagnostic(
   endpoint: EndpointInfo,
   exception: ExceptionLocation,
-  document: vscode.TextDocument
+  document: SourceDocument
+): vscode.Diagnostic {
+  const transitive =
+    exception.inFunction !== undefined || !isSameFile(exception.file, document.uri.fsPath)
+
+  const callSite = exception.inFunction
+    ? findCallSite(document, endpoint, exception.inFunction)
+    : undefined
+
+  const range = transitive
+    ? (callSite ?? lineRange(document, endpoint.decoratorLine - 1))
+    : raiseRange(document, exception)
+
+  const message = exception.inFunction
+    ? `Exception '${exception.exceptionClass}' raised in '${exception.inFunction}' is not declared in endpoint '${endpoint.functionName}'`
+    : `Exception '${exception.exceptionClass}' is not declared in endpoint '${endpoint.functionName}'`
+
+  const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning)
+
+  diagnostic.source = "faex"
+  diagnostic.code = transitive ? "transitive-exception" : "undeclared-exception"
+
+  if (transitive) {
+    const related: vscode.DiagnosticRelatedInformation[] = []
+    if (callSite && exception.inFunction) {
+      related.push(
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(document.uri, callSite),
+          `'${endpoint.functionName}' calls '${exception.inFunction}'`
+        )
+      )
+    }
+    const raiseLine = Math.max(0, exception.line - 1)
+    related.push(
+      new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(
+          vscode.Uri.file(exception.file),
+          new vscode.Position(raiseLine, exception.column)
+        ),
+        exception.inFunction
+          ? `'${exception.exceptionClass}' is raised in '${exception.inFunction}'`
+          : `'${exception.exceptionClass}' is raised here`
+      )
+    )
+    diagnostic.relatedInformation = related
+  }
+
+  // Store metadata for quick fix
+  ;(diagnostic as DiagnosticWithMetadata).metadata = {
+    endpoint,
+    exception,
+  }
+
+  return diagnostic
+}
+
+/**
+ * Create an informational diagnostic at a raise site listing the endpoints it
+ * reaches without being declared
+ */
+export function createPropagationDiagnostic(
+  exception: ExceptionLocation,
+  endpoints: EndpointInfo[]
 ): vscode.Diagnostic {
-  // Create range for the raise statement
+  const line = Math.max(0, exception.line - 1)
+  const names = endpoints.map((endpoint) => formatRoute(endpoint)).join(", ")
+
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(line, exception.column, line, Number.MAX_SAFE_INTEGER),
+    `Exception '${exception.exceptionClass}' reaches ${endpoints.length} endpoint(s) that don't declare it: ${names}`,
+    vscode.DiagnosticSeverity.Information
+  )
+
+  diagnostic.source = "faex"
+  diagnostic.code = "propagated-exception"
+  diagnostic.relatedInformation = endpoints.map(
+    (endpoint) =>
+      new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(
+          vscode.Uri.file(endpoint.file),
+          new vscode.Position(endpoint.decoratorLine - 1, 0)
+        ),
+        `${formatRoute(endpoint)} (${endpoint.functionName})`
+      )
+  )
+
+  return diagnostic
+}
+
+/**
+ * Range of the `raise` statement on the exception's line
+ */
+function raiseRange(document: SourceDocument, exception: ExceptionLocation): vscode.Range {
   const line = exception.line - 1 // 0-indexed
   const lineText = line < document.lineCount ? document.lineAt(line).text : ""
   const startCol = lineText.indexOf("raise")
   const endCol =
     startCol >= 0 ? startCol + `raise ${exception.exceptionClass}`.length : lineText.length
 
-  const range = new vscode.Range(
+  return new vscode.Range(
     new vscode.Position(line, Math.max(0, startCol)),
     new vscode.Position(line, Math.max(0, endCol))
   )
+}
 
-  const message = exception.inFunction
-    ? `Exception '${exception.exceptionClass}' raised in '${exception.inFunction}' is not declared in endpoint '${endpoint.functionName}'`
-    : `Exception '${exception.exceptionClass}' is not declared in endpoint '${endpoint.functionName}'`
+/**
+ * Range of the trimmed text of a line
+ */
+function lineRange(document: SourceDocument, line: number): vscode.Range {
+  const safeLine = Math.min(Math.max(0, line), Math.max(0, document.lineCount - 1))
+  const text = document.lineCount > 0 ? document.lineAt(safeLine).text : ""
+  const start = text.length - text.trimStart().length
+  return new vscode.Range(safeLine, start, safeLine, text.trimEnd().length)
+}
 
-  const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning)
+/**
+ * Find the call to a function inside the endpoint body
+ */
+export function findCallSite(
+  document: SourceDocument,
+  endpoint: EndpointInfo,
+  functionName: string
+): vscode.Range | undefined {
+  const name = functionName.split(".").pop() as string
+  const pattern = new RegExp(`\\b${name}\\s*\\(`)
+  let state: "decorator" | "signature" | "body" = "decorator"
+
+  for (let line = Math.max(0, endpoint.decoratorLine - 1); line < document.lineCount; line++) {
+    const text = document.lineAt(line).text
+
+    if (state === "decorator") {
+      if (/^\s*(async\s+)?def\s/.test(text)) {
+        state = "signature"
+      } else {
+        continue
+      }
+    }
+
+    // Signatures may span lines, e.g. `) -> User:` at column 0
+    if (state === "signature") {
+      if (text.replace(/#.*$/, "").trimEnd().endsWith(":")) {
+        state = "body"
+      }
+      continue
+    }
+
+    // The body ends at the next top-level statement
+    if (/^[^\s#]/.test(text)) {
+      return undefined
+    }
+
+    const match = pattern.exec(text)
+    if (match) {
+      return new vscode.Range(line, match.index, line, match.index + match[0].length - 1)
+    }
+  }
+
+  return undefined
+}
+
+function isSameFile(a: string, b: string): boolean {
+  return path.resolve(a) === path.resolve(b)
+}
+
+/**
+ * Create a diagnostic for a declared exception the endpoint never raises
+ */
+export function createUnusedDiagnostic(
+  endpoint: EndpointInfo,
+  exceptionClass: string,
+  range: vscode.Range
+): vscode.Diagnostic {
+  const message = `Exception '${exceptionClass}' is declared but never raised in endpoint '${endpoint.functionName}'`
+
+  const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Information)
 
   diagnostic.source = "faex"
-  diagnostic.code = "undeclared-exception"
+  diagnostic.code = "unused-exception"
+  diagnostic.tags = [vscode.DiagnosticTag.Unnecessary]
 
   // Store metadata for quick fix
   ;(diagnostic as DiagnosticWithMetadata).metadata = {
     endpoint,
-    exception,
+    exception: {
+      file: endpoint.file,
+      line: range.start.line + 1,
+      column: range.start.character,
+      exceptionClass,
+    },
+  }
+
+  return diagnostic
+}
+
+/**
+ * Create a diagnostic for a declared exception whose declared base class already covers it
+ */
+export function createRedundantDiagnostic(
+  endpoint: EndpointInfo,
+  redundant: RedundantDeclaration,
+  range: vscode.Range
+): vscode.Diagnostic {
+  const message = `Exception '${redundant.exception}' is already covered by its base class '${redundant.base}' in endpoint '${endpoint.functionName}'`
+
+  const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Hint)
+
+  diagnostic.source = "faex"
+  diagnostic.code = "redundant-exception"
+  diagnostic.tags = [vscode.DiagnosticTag.Unnecessary]
+
+  // Store metadata for quick fix
+  ;(diagnostic as DiagnosticWithMetadata).metadata = {
+    endpoint,
+    exception: {
+      file: endpoint.file,
+      line: range.start.line + 1,
+      column: range.start.character,
+      exceptionClass: redundant.exception,
+    },
   }
 
   return diagnostic
 }
 
+/**
+ * Create a diagnostic on an endpoint whose route another endpoint registers too,
+ * or that an earlier route of its router shadows
+ */
+export function createRouteConflictDiagnostic(conflict: RouteConflict): vscode.Diagnostic {
+  const { endpoint, others } = conflict
+  const line = Math.max(0, endpoint.decoratorLine - 1)
+  const route = `${endpoint.method.toUpperCase()} ${conflict.path}`
+  const names = others.map((other) => `'${other.endpoint.functionName}'`).join(", ")
+
+  const message =
+    conflict.kind === "duplicate"
+      ? `Route '${route}' is also registered by ${names}`
+      : `Route '${route}' is shadowed by ${others.map((other) => `'${other.endpoint.method.toUpperCase()} ${other.path}'`).join(", ")}, declared before it in the same router`
+
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+    message,
+    vscode.DiagnosticSeverity.Warning
+  )
+
+  diagnostic.source = "faex"
+  diagnostic.code = conflict.kind === "duplicate" ? "duplicate-route" : "shadowed-route"
+  diagnostic.relatedInformation = others.map(
+    (other) =>
+      new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(
+          vscode.Uri.file(other.endpoint.file),
+          new vscode.Position(other.endpoint.decoratorLine - 1, 0)
+        ),
+        `${conflict.kind === "duplicate" ? "Also registered" : "Matched first"} by ${other.endpoint.method.toUpperCase()} ${other.path} (${other.endpoint.functionName})`
+      )
+  )
+
+  return diagnostic
+}
+
+/**
+ * Create a diagnostic for a `# faex: ignore` comment that no longer matches anything
+ */
+export function createUnusedSuppressionDiagnostic(range: vscode.Range): vscode.Diagnostic {
+  const diagnostic = new vscode.Diagnostic(
+    range,
+    "Unused faex suppression: no finding matches this comment",
+    vscode.DiagnosticSeverity.Hint
+  )
+
+  diagnostic.source = "faex"
+  diagnostic.code = "unused-suppression"
+  diagnostic.tags = [vscode.DiagnosticTag.Unnecessary]
+
+  return diagnostic
+}
+
+/**
+ * Create a diagnostic for a failed run or an error faex reported for a file
+ */
+export function createAnalysisErrorDiagnostic(
+  error: AnalysisError,
+  document: SourceDocument
+): vscode.Diagnostic {
+  const message =
+    error.code === "timeout"
+      ? `${error.message}. Increase 'faex.timeout' or lower 'faex.depth'.`
+      : error.message
+
+  const diagnostic = new vscode.Diagnostic(
+    lineRange(document, (error.line ?? 1) - 1),
+    message,
+    vscode.DiagnosticSeverity.Warning
+  )
+
+  diagnostic.source = "faex"
+  diagnostic.code = "analysis-error"
+
+  // Store the error for the "Show Details" action
+  ;(diagnostic as AnalysisErrorDiagnostic).error = error
+
+  return diagnostic
+}
+
 /**
  * Extended diagnostic with metadata
  */
@@ -213,6 +624,13 @@ export interface DiagnosticWithMetadata extends vscode.Diagnostic {
   }
 }
 
+/**
+ * Diagnostic for an analysis error
+ */
+export interface AnalysisErrorDiagnostic extends vscode.Diagnostic {
+  error?: AnalysisError
+}
+
 /**
  * Singleton analyzer instance
  */
@@ -0,0 +1,294 @@
+import * as vscode from "vscode"
+import * as crypto from "crypto"
+import { AnalysisError, EndpointInfo } from "../types"
+import { getConfig, getWorkspaceFolder } from "../utils/config"
+import { log, logTrace, logWarning } from "../utils/logger"
+import { getFaexVersion } from "./cli"
+import { resolveFaexCommand } from "./executable"
+
+/**
+ * Analysis result of one file, valid for one content and analysis context
+ */
+interface CacheEntry {
+  /** Hash of the analyzed file content */
+  contentHash: string
+  /** Hash of the faex command, its version and the settings that change its output */
+  contextHash: string
+  endpoints: EndpointInfo[]
+  errors: AnalysisError[]
+  updatedAt: number
+}
+
+/**
+ * Layout of the cache file in workspace storage
+ */
+interface CacheFile {
+  format: number
+  entries: Record<string, CacheEntry>
+}
+
+const CACHE_FILE = "analysis-cache.json"
+/** Bump when CacheEntry or EndpointInfo change shape */
+const CACHE_FORMAT = 1
+/** Entries kept on disk; the least recently updated are dropped first */
+const MAX_ENTRIES = 2000
+/** Delay in milliseconds before changes are written to disk */
+const SAVE_DELAY = 2000
+
+/**
+ * Hash file content for cache lookups
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex")
+}
+
+/**
+ * Hash everything besides the file content that changes faex output for a file:
+ * the faex command and version, and the depth and ignore settings that apply to it
+ */
+export async function computeContextHash(filePath: string): Promise<string> {
+  const folder = getWorkspaceFolder(filePath)
+  const config = getConfig(vscode.Uri.file(filePath))
+  const faex = await resolveFaexCommand(folder)
+  const version = await getFaexVersion(faex)
+
+  return hashContent(
+    JSON.stringify({
+      command: [faex.command, ...faex.args],
+      version,
+      depth: config.depth,
+      ignore: config.ignore,
+    })
+  )
+}
+
+/**
+ * Analysis results per file, persisted in the extension's workspace storage
+ * so results can be shown right after a reload
+ */
+export class AnalysisCache implements vscode.Disposable {
+  private entries: Map<string, CacheEntry> = new Map()
+  private loaded: Promise<void>
+  private saveTimer: NodeJS.Timeout | undefined
+  private disposables: vscode.Disposable[] = []
+
+  /**
+   * @param onDidChangeFile Python files changed or removed on disk
+   */
+  constructor(
+    private storageUri?: vscode.Uri,
+    onDidChangeFile?: vscode.Event<vscode.Uri>
+  ) {
+    this.loaded = this.load()
+
+    // Drop results of files that changed or were removed outside the editor
+    if (onDidChangeFile) {
+      this.disposables.push(onDidChangeFile((uri) => this.evictIfChanged(uri)))
+    }
+  }
+
+  /**
+   * Get the cached result of a file if it was computed for the same content and context
+   */
+  async get(
+    filePath: string,
+    contentHash: string,
+    contextHash: string
+  ): Promise<{ endpoints: EndpointInfo[]; errors: AnalysisError[] } | undefined> {
+    await this.loaded
+    const entry = this.entries.get(filePath)
+    if (!entry || entry.contentHash !== contentHash || entry.contextHash !== contextHash) {
+      logTrace(`Cache miss: ${filePath}`)
+      return undefined
+    }
+
+    logTrace(`Cache hit: ${filePath}`)
+    return { endpoints: entry.endpoints, errors: entry.errors }
+  }
+
+  /**
+   * Store the result of a file
+   */
+  async set(
+    filePath: string,
+    contentHash: string,
+    contextHash: string,
+    endpoints: EndpointInfo[],
+    errors: AnalysisError[] = []
+  ): Promise<void> {
+    await this.loaded
+    this.entries.set(filePath, {
+      contentHash,
+      contextHash,
+      endpoints,
+      errors,
+      updatedAt: Date.now(),
+    })
+    this.scheduleSave()
+  }
+
+  /**
+   * Remove the result of a file
+   */
+  delete(filePath: string): void {
+    if (this.entries.delete(filePath)) {
+      logTrace(`Evicted from cache: ${filePath}`)
+      this.scheduleSave()
+    }
+  }
+
+  /**
+   * Remove every result
+   */
+  clear(): void {
+    this.entries.clear()
+    this.scheduleSave()
+  }
+
+  /**
+   * Remove results computed with another faex command, version or settings
+   */
+  async evictStaleContexts(): Promise<void> {
+    await this.loaded
+    let evicted = 0
+
+    for (const [filePath, entry] of [...this.entries]) {
+      if (entry.contextHash !== (await computeContextHash(filePath))) {
+        this.entries.delete(filePath)
+        evicted++
+      }
+    }
+
+    if (evicted > 0) {
+      log(`Evicted ${evicted} cached result(s) after a settings change`)
+      this.scheduleSave()
+    }
+  }
+
+  /**
+   * Write pending changes to disk now
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = undefined
+      await this.save()
+    }
+  }
+
+  private async evictIfChanged(uri: vscode.Uri): Promise<void> {
+    const entry = this.entries.get(uri.fsPath)
+    if (!entry) {
+      return
+    }
+    try {
+      const bytes = await vscode.workspace.fs.readFile(uri)
+      if (hashContent(new TextDecoder("utf-8").decode(bytes)) !== entry.contentHash) {
+        this.delete(uri.fsPath)
+      }
+    } catch {
+      this.delete(uri.fsPath)
+    }
+  }
+
+  private getCacheUri(): vscode.Uri | undefined {
+    return this.storageUri && vscode.Uri.joinPath(this.storageUri, CACHE_FILE)
+  }
+
+  private async load(): Promise<void> {
+    const cacheUri = this.getCacheUri()
+    if (!cacheUri) {
+      return
+    }
+
+    try {
+      const bytes = await vscode.workspace.fs.readFile(cacheUri)
+      const data = JSON.parse(new TextDecoder("utf-8").decode(bytes)) as CacheFile
+      if (data.format !== CACHE_FORMAT) {
+        log("Discarded analysis cache written by another extension version")
+        return
+      }
+      for (const [filePath, entry] of Object.entries(data.entries)) {
+        // Entries set before loading finished are newer
+        if (!this.entries.has(filePath)) {
+          this.entries.set(filePath, entry)
+        }
+      }
+      log(`Loaded ${this.entries.size} cached result(s) from ${cacheUri.fsPath}`)
+    } catch (error) {
+      if (!(error instanceof vscode.FileSystemError)) {
+        logWarning(
+          `Failed to read analysis cache: ${error instanceof Error ? error.message : error}`
+        )
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.storageUri || this.saveTimer) {
+      return
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined
+      this.save()
+    }, SAVE_DELAY)
+  }
+
+  private async save(): Promise<void> {
+    const cacheUri = this.getCacheUri()
+    if (!cacheUri || !this.storageUri) {
+      return
+    }
+
+    // Keep the most recently updated entries
+    const kept = [...this.entries]
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_ENTRIES)
+    const data: CacheFile = { format: CACHE_FORMAT, entries: Object.fromEntries(kept) }
+
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageUri)
+      await vscode.workspace.fs.writeFile(cacheUri, new TextEncoder().encode(JSON.stringify(data)))
+    } catch (error) {
+      logWarning(
+        `Failed to write analysis cache: ${error instanceof Error ? error.message : error}`
+      )
+    }
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+  }
+}
+
+/**
+ * Singleton cache instance
+ */
+let cacheInstance: AnalysisCache | null = null
+
+/**
+ * Create the cache, stored under the extension's workspace storage
+ */
+export function initAnalysisCache(
+  storageUri?: vscode.Uri,
+  onDidChangeFile?: vscode.Event<vscode.Uri>
+): AnalysisCache {
+  cacheInstance?.dispose()
+  cacheInstance = new AnalysisCache(storageUri, onDidChangeFile)
+  return cacheInstance
+}
+
+/**
+ * Get the cache; it is kept in memory only until initAnalysisCache is called
+ */
+export function getAnalysisCache(): AnalysisCache {
+  if (!cacheInstance) {
+    cacheInstance = new AnalysisCache()
+  }
+  return cacheInstance
+}
@@ -0,0 +1,170 @@
+import { EndpointInfo } from "../types"
+import {
+  ImportBinding,
+  ModuleTable,
+  SymbolRef,
+  parseImports,
+  stripComments,
+  symbolKey,
+} from "./pythonModules"
+import { SourceParser } from "./sourceIndex"
+
+/**
+ * Class definitions of one Python file
+ */
+interface ClassModule {
+  imports: Map<string, ImportBinding>
+  /** Direct base expressions per class, e.g. `NotFoundError -> [errors.DomainError]` */
+  classes: Map<string, string[]>
+}
+
+/** Bases every class has; never useful as an ancestor */
+const IMPLICIT_BASES = new Set(["object", "Generic", "Protocol"])
+
+/**
+ * Index of the workspace's Python class definitions, used to find the base
+ * classes of exceptions so declaring a base class covers its subclasses
+ * Names are resolved through imports, so same-named classes of different modules stay apart
+ */
+export class ClassHierarchy implements SourceParser {
+  private modules: ModuleTable<ClassModule>
+  /** Definitions per class name, rebuilt after changes */
+  private definitions: Map<string, SymbolRef[]> | undefined
+
+  /**
+   * @param getRoot Workspace folder of a file, the root of absolute imports
+   */
+  constructor(getRoot: (file: string) => string | undefined) {
+    this.modules = new ModuleTable(parseClasses, getRoot)
+  }
+
+  setSource(file: string, text: string | undefined): void {
+    this.modules.set(file, text)
+    this.definitions = undefined
+  }
+
+  clear(): void {
+    this.modules.clear()
+    this.definitions = undefined
+  }
+
+  /**
+   * Compute the base classes of an endpoint's exceptions
+   * Declared exceptions are named in the endpoint's file and raised ones at their raise
+   * site; bases reported by faex take precedence over the workspace's class definitions
+   */
+  resolve(endpoint: EndpointInfo): EndpointInfo {
+    const references = [
+      ...endpoint.declaredExceptions.map((name) => ({ name, file: endpoint.file })),
+      ...[...endpoint.detectedExceptions, ...(endpoint._undeclaredExceptions ?? [])].map((exc) => ({
+        name: exc.exceptionClass,
+        file: exc.file,
+      })),
+    ]
+
+    const exceptionAncestors: Record<string, string[]> = {}
+    for (const { name, file } of references) {
+      const key = name.split(".").pop() as string
+      if (key in exceptionAncestors) {
+        continue
+      }
+      const ancestors = endpoint.exceptionBases?.[key] ?? this.getAncestors(file, name)
+      if (ancestors.length > 0) {
+        exceptionAncestors[key] = ancestors.map((base) => base.split(".").pop() as string)
+      }
+    }
+
+    return { ...endpoint, exceptionAncestors }
+  }
+
+  /**
+   * Base classes of a class as named in a file, nearest first
+   */
+  getAncestors(file: string, className: string): string[] {
+    const ancestors: string[] = []
+    const visited = new Set<string>()
+    const queue = this.findDefinitions(file, className)
+
+    while (queue.length > 0) {
+      const ref = queue.shift() as SymbolRef
+      if (visited.has(symbolKey(ref))) {
+        continue
+      }
+      visited.add(symbolKey(ref))
+
+      for (const base of this.modules.get(ref.file)?.classes.get(ref.name) ?? []) {
+        const resolved = this.resolveClass(ref.file, base)
+        // Bases defined outside the workspace, e.g. `Exception`, end the chain
+        const name = resolved?.name ?? (base.split(".").pop() as string)
+        if (!ancestors.includes(name) && name !== className.split(".").pop()) {
+          ancestors.push(name)
+        }
+        if (resolved) {
+          queue.push(resolved)
+        }
+      }
+    }
+
+    return ancestors
+  }
+
+  /**
+   * Find the definition a class name refers to in a file
+   * Names that can't be resolved through imports, e.g. when faex reports `errors.NotFound`
+   * as `NotFound`, fall back to the same-named classes of the file's workspace folder
+   */
+  private findDefinitions(file: string, className: string): SymbolRef[] {
+    const resolved = this.resolveClass(file, className)
+    if (resolved) {
+      return [resolved]
+    }
+
+    const root = this.modules.rootOf(file)
+    return (this.getDefinitions().get(className.split(".").pop() as string) ?? []).filter(
+      (ref) => this.modules.rootOf(ref.file) === root
+    )
+  }
+
+  private resolveClass(file: string, expression: string): SymbolRef | undefined {
+    return this.modules.resolve(file, expression, (module, name) => module.classes.has(name))
+  }
+
+  private getDefinitions(): Map<string, SymbolRef[]> {
+    if (this.definitions) {
+      return this.definitions
+    }
+
+    const definitions: Map<string, SymbolRef[]> = new Map()
+    for (const [file, module] of this.modules.entries()) {
+      for (const name of module.classes.keys()) {
+        const list = definitions.get(name) ?? []
+        list.push({ file, name })
+        definitions.set(name, list)
+      }
+    }
+
+    this.definitions = definitions
+    return definitions
+  }
+}
+
+/**
+ * Extract imports and class definitions with their direct bases from Python source,
+ * e.g. `class NotFoundError(errors.DomainError):` gives `NotFoundError -> [errors.DomainError]`
+ */
+function parseClasses(text: string): ClassModule {
+  const source = stripComments(text)
+  const module: ClassModule = { imports: parseImports(source), classes: new Map() }
+
+  for (const match of source.matchAll(/^[ \t]*class[ \t]+(\w+)[ \t]*\(([^)]*)\)[ \t]*:/gm)) {
+    const bases = match[2]
+      .split(",")
+      .map((base) => base.trim())
+      // Skip keyword arguments such as `metaclass=ABCMeta` and subscripts like `Generic[T]`
+      .filter((base) => /^[\w.]+$/.test(base))
+      .filter((base) => !IMPLICIT_BASES.has(base.split(".").pop() as string))
+    module.classes.set(match[1], bases)
+  }
+
+  return module
+}
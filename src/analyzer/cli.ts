@@ -1,6 +1,12 @@
 import * as vscode from "vscode"
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
 import { spawn } from "child_process"
-import { getConfig } from "../utils/config"
+import { getConfig, getWorkspaceFolder } from "../utils/config"
+import { log, logDebug, logError, logTrace, truncateOutput } from "../utils/logger"
+import { FaexCommand, resolveFaexCommand } from "./executable"
+import { FaexSchemaError, checkFaexVersion, parseFaexOutput } from "./schema"
 
 /**
  * faex CLI JSON output format
@@ -23,6 +29,10 @@ export interface FaexEndpoint {
   path: string
   declared_exceptions: string[]
   undeclared_exceptions: FaexException[]
+  /** Every exception the endpoint can raise, declared or not (newer faex versions) */
+  detected_exceptions?: FaexException[]
+  /** Base classes of each declared and detected exception, nearest first (newer faex versions) */
+  exception_bases?: Record<string, string[]>
 }
 
 export interface FaexException {
@@ -32,28 +42,175 @@ export interface FaexException {
   in_function: string | null
 }
 
+/**
+ * Number of faex CLI processes currently running
+ */
+let activeRuns = 0
+const _onDidChangeActiveRuns = new vscode.EventEmitter<number>()
+
+/**
+ * Fired with the number of running faex processes whenever a run starts or ends
+ */
+export const onDidChangeActiveRuns: vscode.Event<number> = _onDidChangeActiveRuns.event
+
+/**
+ * Check if any faex CLI process is currently running
+ */
+export function isFaexRunning(): boolean {
+  return activeRuns > 0
+}
+
+/**
+ * Record that a faex run (CLI process or server request) started
+ */
+export function trackRunStart(): void {
+  activeRuns++
+  _onDidChangeActiveRuns.fire(activeRuns)
+}
+
+/**
+ * Record that a faex run ended
+ */
+export function trackRunEnd(): void {
+  activeRuns = Math.max(0, activeRuns - 1)
+  _onDidChangeActiveRuns.fire(activeRuns)
+}
+
+/**
+ * Raised when a faex run exceeds the configured timeout
+ */
+export class FaexTimeoutError extends Error {
+  constructor(public readonly timeoutSeconds: number) {
+    super(`faex did not finish within ${timeoutSeconds}s`)
+    this.name = "FaexTimeoutError"
+  }
+}
+
+/**
+ * Raised when a faex run is cancelled or superseded by a newer run
+ */
+export class FaexCancelledError extends Error {
+  constructor() {
+    super("faex run was cancelled")
+    this.name = "FaexCancelledError"
+  }
+}
+
+/**
+ * Raised when faex can't be started, exits with an error or prints output that isn't JSON
+ */
+export class FaexRunError extends Error {
+  constructor(
+    message: string,
+    /** Raw stdout and stderr of the run */
+    public readonly output: string
+  ) {
+    super(message)
+    this.name = "FaexRunError"
+  }
+}
+
+/**
+ * Options for a faex CLI run
+ */
+export interface RunOptions {
+  /** Path used to select the workspace folder and settings (defaults to the analyzed path) */
+  resourcePath?: string
+  /** Kills the process when cancellation is requested */
+  token?: vscode.CancellationToken
+}
+
 /**
  * Run faex CLI and return parsed JSON output
+ * Rejects with FaexTimeoutError or FaexCancelledError when the process is killed,
+ * and with FaexRunError when it fails
  */
-export async function runFaexCli(filePath: string): Promise<FaexJsonOutput | null> {
-  const config = getConfig()
-  const faexPath = config.faexPath || "faex"
+export async function runFaexCli(
+  filePath: string,
+  options: RunOptions = {}
+): Promise<FaexJsonOutput | null> {
+  // Run from the root of the folder that owns the file, with the settings nearest to the file
+  const resourcePath = options.resourcePath ?? filePath
+  const workspaceFolder = getWorkspaceFolder(resourcePath)
+  const config = getConfig(vscode.Uri.file(resourcePath))
+  const faex = await resolveFaexCommand(workspaceFolder)
+  const { token } = options
+
+  // Refuse versions whose output this extension can't read
+  const version = await getFaexVersion(faex)
+  const versionCheck = version ? checkFaexVersion(version) : { compatible: true }
+  if (!versionCheck.compatible) {
+    forgetFaexVersion(faex)
+    throw new FaexRunError(
+      versionCheck.message as string,
+      `$ ${[faex.command, ...faex.args, "--version"].join(" ")}\n${version}`
+    )
+  }
+
+  if (token?.isCancellationRequested) {
+    throw new FaexCancelledError()
+  }
+
+  return new Promise((resolve, reject) => {
+    let settled = false
+    let timedOut = false
+    let cancelled = false
+    let timer: NodeJS.Timeout | undefined
+
+    const settle = (callback: () => void) => {
+      if (!settled) {
+        settled = true
+        clearTimeout(timer)
+        cancellation?.dispose()
+        trackRunEnd()
+        callback()
+      }
+    }
+    const finish = (result: FaexJsonOutput | null) => settle(() => resolve(result))
+    const fail = (message: string) => {
+      logError(`${message}: ${filePath}`)
+      settle(() =>
+        reject(new FaexRunError(message, formatRawOutput([faex.command, ...args], stdout, stderr)))
+      )
+    }
 
-  return new Promise((resolve) => {
-    const args = ["check", filePath, "--format", "json", "--depth", String(config.depth)]
+    const args = [
+      ...faex.args,
+      "check",
+      filePath,
+      "--format",
+      "json",
+      "--depth",
+      String(config.depth),
+    ]
 
     // Add ignore flags
     for (const ignore of config.ignore) {
       args.push("--ignore", ignore)
     }
 
-    const process = spawn(faexPath, args, {
-      cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
-    })
-
     let stdout = ""
     let stderr = ""
 
+    const cwd = workspaceFolder?.uri.fsPath
+    const startedAt = Date.now()
+    log(`Running ${[faex.command, ...args].join(" ")} (cwd: ${cwd ?? "(none)"})`)
+
+    const process = spawn(faex.command, args, { cwd })
+    trackRunStart()
+
+    if (config.timeout > 0) {
+      timer = setTimeout(() => {
+        timedOut = true
+        process.kill()
+      }, config.timeout * 1000)
+    }
+
+    const cancellation = token?.onCancellationRequested(() => {
+      cancelled = true
+      process.kill()
+    })
+
     process.stdout.on("data", (data) => {
       stdout += data.toString()
     })
@@ -62,62 +219,224 @@ export async function runFaexCli(filePath: string): Promise<FaexJsonOutput | nul
       stderr += data.toString()
     })
 
-    process.on("close", () => {
+    process.on("close", (code) => {
+      log(`faex exited with code ${code} after ${Date.now() - startedAt}ms: ${filePath}`)
+      logDebug(`faex stdout: ${truncateOutput(stdout)}`)
+      logDebug(`faex stderr: ${truncateOutput(stderr)}`)
+
+      if (cancelled) {
+        logDebug(`faex run was cancelled: ${filePath}`)
+        settle(() => reject(new FaexCancelledError()))
+        return
+      }
+      if (timedOut) {
+        logError(`faex timed out after ${config.timeout}s: ${filePath}`)
+        settle(() => reject(new FaexTimeoutError(config.timeout)))
+        return
+      }
+
       // faex returns exit code 1 when issues are found, which is normal
-      if (stdout) {
+      if (stdout.trim()) {
         try {
-          const result = JSON.parse(stdout) as FaexJsonOutput
-          resolve(result)
-        } catch {
-          console.error("Failed to parse faex output:", stdout)
-          resolve(null)
+          finish(parseFaexOutput(stdout))
+        } catch (error) {
+          // The CLI may have been upgraded since its version was read
+          forgetFaexVersion(faex)
+          const detail = error instanceof FaexSchemaError ? error.message : String(error)
+          const name = version ? `faex ${version}` : "faex"
+          fail(`${name} printed output this extension can't read (${detail})`)
         }
+      } else if (code !== 0) {
+        // The last stderr line usually names the error (e.g. the end of a traceback)
+        const lastLine = stderr.trim().split(/\r?\n/).pop()
+        fail(`faex exited with code ${code}${lastLine ? `: ${lastLine}` : ""}`)
       } else {
-        if (stderr) {
-          console.error("faex error:", stderr)
-        }
-        resolve(null)
+        finish(null)
       }
     })
 
     process.on("error", (err) => {
-      console.error("Failed to run faex:", err.message)
-      vscode.window.showErrorMessage(
-        `Failed to run faex: ${err.message}. Make sure faex is installed (pip install faex)`
-      )
-      resolve(null)
+      fail(`Failed to run faex: ${err.message}. Make sure faex is installed (pip install faex)`)
     })
   })
 }
 
 /**
- * Run faex CLI on workspace
+ * Format the command line and output of a run for the details view
+ */
+function formatRawOutput(commandLine: string[], stdout: string, stderr: string): string {
+  return [
+    `$ ${commandLine.join(" ")}`,
+    "",
+    "--- stdout ---",
+    stdout || "(empty)",
+    "",
+    "--- stderr ---",
+    stderr || "(empty)",
+  ].join("\n")
+}
+
+/** Name prefix of the hidden files unsaved buffers are analyzed from */
+const SHADOW_PREFIX = ".faex-shadow-"
+
+/**
+ * Check if a path is a shadow file written for an unsaved buffer, or lies in a shadow directory
+ */
+export function isShadowFile(filePath: string): boolean {
+  return filePath.split(/[\\/]/).some((segment) => segment.startsWith(SHADOW_PREFIX))
+}
+
+/**
+ * Drop endpoints that faex found in shadow files of unsaved buffers
+ */
+export function withoutShadowFiles(output: FaexJsonOutput): FaexJsonOutput {
+  return {
+    ...output,
+    endpoints: output.endpoints.filter((endpoint) => !isShadowFile(endpoint.file)),
+  }
+}
+
+/**
+ * Run faex CLI on unsaved content of a file
+ * The content is written to a temporary directory under the file's own name, so file
+ * watchers and version control in the workspace never see it; faex still runs from the
+ * workspace folder, and paths in the output are mapped back to the real file
+ */
+export async function runFaexCliOnContent(
+  filePath: string,
+  content: string,
+  token?: vscode.CancellationToken
+): Promise<FaexJsonOutput | null> {
+  const shadowDir = await fs.mkdtemp(path.join(os.tmpdir(), SHADOW_PREFIX))
+  const shadowPath = path.join(shadowDir, path.basename(filePath))
+  // faex reports relative paths from its working directory, the file's workspace folder
+  const cwd = getWorkspaceFolder(filePath)?.uri.fsPath
+
+  try {
+    await fs.writeFile(shadowPath, content, "utf8")
+    // Resolve symlinks (e.g. /tmp on macOS) that faex may have resolved in its output
+    const shadowPaths = new Set([shadowPath, await fs.realpath(shadowPath)])
+    const result = await runFaexCli(shadowPath, { resourcePath: filePath, token })
+    return result && remapShadowPath(result, shadowPaths, filePath, cwd)
+  } finally {
+    await fs.rm(shadowDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Replace the shadow file path with the real file path in faex output
+ * Relative paths are resolved from `cwd`, the directory faex ran in
+ */
+export function remapShadowPath(
+  output: FaexJsonOutput,
+  shadowPaths: Set<string>,
+  filePath: string,
+  cwd: string | undefined
+): FaexJsonOutput {
+  const remap = (file: string) => (shadowPaths.has(path.resolve(cwd ?? "", file)) ? filePath : file)
+
+  return {
+    ...output,
+    endpoints: output.endpoints.map((endpoint) => ({
+      ...endpoint,
+      file: remap(endpoint.file),
+      undeclared_exceptions: endpoint.undeclared_exceptions.map((exc) => ({
+        ...exc,
+        file: remap(exc.file),
+      })),
+      detected_exceptions: endpoint.detected_exceptions?.map((exc) => ({
+        ...exc,
+        file: remap(exc.file),
+      })),
+    })),
+    errors: output.errors.map((msg) =>
+      [...shadowPaths].reduce((text, shadow) => text.split(shadow).join(filePath), msg)
+    ),
+  }
+}
+
+/**
+ * Run faex CLI on a workspace folder (the first folder by default)
  */
-export async function runFaexCliOnWorkspace(): Promise<FaexJsonOutput | null> {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+export async function runFaexCliOnWorkspace(
+  folder?: vscode.WorkspaceFolder,
+  token?: vscode.CancellationToken
+): Promise<FaexJsonOutput | null> {
+  const workspaceFolder = folder ?? vscode.workspace.workspaceFolders?.[0]
   if (!workspaceFolder) {
     return null
   }
 
-  return runFaexCli(workspaceFolder.uri.fsPath)
+  const result = await runFaexCli(workspaceFolder.uri.fsPath, { token })
+  return result && withoutShadowFiles(result)
 }
 
 /**
- * Check if faex CLI is available
+ * `faex --version` output per command line
+ */
+const versionCache: Map<string, Promise<string | undefined>> = new Map()
+
+/**
+ * Read `faex --version`, or undefined when faex can't be run
  */
-export async function isFaexAvailable(): Promise<boolean> {
-  const config = getConfig()
-  const faexPath = config.faexPath || "faex"
+export function getFaexVersion(faex: FaexCommand): Promise<string | undefined> {
+  const key = [faex.command, ...faex.args].join(" ")
+  let version = versionCache.get(key)
+  if (version) {
+    logTrace(`Using cached faex version for ${key}`)
+    return version
+  }
 
-  return new Promise((resolve) => {
-    const process = spawn(faexPath, ["--version"])
+  version = new Promise((resolve) => {
+    const process = spawn(faex.command, [...faex.args, "--version"])
+    let stdout = ""
+
+    process.stdout.on("data", (data) => {
+      stdout += data.toString()
+    })
 
     process.on("close", (code) => {
-      resolve(code === 0)
+      const output = stdout.trim()
+      if (code === 0) {
+        log(`faex version: ${output} (${key})`)
+      }
+      resolve(code === 0 ? output : undefined)
     })
 
     process.on("error", () => {
-      resolve(false)
+      resolve(undefined)
     })
   })
+  versionCache.set(key, version)
+
+  // Look again next time when faex wasn't found, e.g. until it is installed
+  version.then((result) => {
+    if (result === undefined) {
+      forgetFaexVersion(faex)
+    }
+  })
+  return version
+}
+
+function forgetFaexVersion(faex: FaexCommand): void {
+  versionCache.delete([faex.command, ...faex.args].join(" "))
+}
+
+/**
+ * Check if faex CLI is available
+ */
+export async function isFaexAvailable(uri?: vscode.Uri): Promise<boolean> {
+  const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined
+  const faex = await resolveFaexCommand(folder)
+  return (await getFaexVersion(faex)) !== undefined
+}
+
+/**
+ * Check the faex CLI version against the versions this extension supports
+ * Returns an actionable message when it is incompatible or newer than tested
+ */
+export async function checkFaexCompatibility(uri?: vscode.Uri): Promise<string | undefined> {
+  const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined
+  const version = await getFaexVersion(await resolveFaexCommand(folder))
+  return version ? checkFaexVersion(version).message : undefined
 }
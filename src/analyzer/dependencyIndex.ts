@@ -0,0 +1,132 @@
+import * as path from "path"
+import { EndpointInfo } from "../types"
+import { ModuleTable, ParsedModule, joinModule, parseImports, stripComments } from "./pythonModules"
+import { SourceParser } from "./sourceIndex"
+
+/**
+ * Reverse dependency index: which endpoint files reach raise sites in which modules
+ * Built from every raise site faex reports for each endpoint, declared or not, and the
+ * workspace modules the endpoint file imports, since faex may only report undeclared raise sites
+ */
+export class DependencyIndex {
+  /** Module -> endpoint files whose endpoints raise in it */
+  private dependents: Map<string, Set<string>> = new Map()
+  /** Endpoint file -> modules its endpoints raise in */
+  private dependencies: Map<string, Set<string>> = new Map()
+
+  /**
+   * Replace the dependencies of an endpoint file
+   * @param importedFiles Workspace modules the endpoint file imports, directly or not
+   */
+  update(endpointFile: string, endpoints: EndpointInfo[], importedFiles: string[] = []): void {
+    this.remove(endpointFile)
+    if (endpoints.length === 0) {
+      return
+    }
+
+    const file = path.resolve(endpointFile)
+    const raiseSites = endpoints.flatMap((endpoint) => [
+      ...endpoint.detectedExceptions,
+      ...(endpoint._undeclaredExceptions ?? []),
+    ])
+    const modules = new Set<string>()
+    for (const module of [...raiseSites.map((site) => site.file), ...importedFiles]) {
+      if (path.resolve(module) !== file) {
+        modules.add(path.resolve(module))
+      }
+    }
+
+    if (modules.size === 0) {
+      return
+    }
+
+    this.dependencies.set(file, modules)
+    for (const module of modules) {
+      const files = this.dependents.get(module) ?? new Set()
+      files.add(file)
+      this.dependents.set(module, files)
+    }
+  }
+
+  /**
+   * Forget an endpoint file
+   */
+  remove(endpointFile: string): void {
+    const file = path.resolve(endpointFile)
+    for (const module of this.dependencies.get(file) ?? []) {
+      const files = this.dependents.get(module)
+      files?.delete(file)
+      if (files?.size === 0) {
+        this.dependents.delete(module)
+      }
+    }
+    this.dependencies.delete(file)
+  }
+
+  /**
+   * Get endpoint files whose endpoints raise exceptions in a module
+   */
+  getDependents(modulePath: string): string[] {
+    return [...(this.dependents.get(path.resolve(modulePath)) ?? [])]
+  }
+
+  /**
+   * Forget every file
+   */
+  clear(): void {
+    this.dependents.clear()
+    this.dependencies.clear()
+  }
+}
+
+/**
+ * Imports between the workspace's Python files
+ */
+export class ImportGraph implements SourceParser {
+  private modules: ModuleTable<ParsedModule>
+
+  /**
+   * @param getRoot Workspace folder of a file, the root of absolute imports
+   */
+  constructor(getRoot: (file: string) => string | undefined) {
+    this.modules = new ModuleTable(
+      (text) => ({ imports: parseImports(stripComments(text)) }),
+      getRoot
+    )
+  }
+
+  setSource(file: string, text: string | undefined): void {
+    this.modules.set(file, text)
+  }
+
+  clear(): void {
+    this.modules.clear()
+  }
+
+  /**
+   * Workspace files a file imports, directly or through the files it imports
+   */
+  getImportedFiles(file: string): string[] {
+    const start = path.resolve(file)
+    const found = new Set<string>([start])
+    const queue = [start]
+
+    while (queue.length > 0) {
+      const current = queue.shift() as string
+      for (const binding of this.modules.get(current)?.imports.values() ?? []) {
+        // `from a import b` may import the submodule a.b rather than a name defined in a
+        const submodule =
+          binding.name &&
+          this.modules.resolveModule(current, joinModule(binding.module, binding.name))
+        const imported = submodule || this.modules.resolveModule(current, binding.module)
+        if (imported && !found.has(imported)) {
+          found.add(imported)
+          queue.push(imported)
+        }
+      }
+    }
+
+    found.delete(start)
+    return [...found]
+  }
+}
@@ -0,0 +1,207 @@
+import * as vscode from "vscode"
+import * as fs from "fs/promises"
+import * as path from "path"
+import { execFile } from "child_process"
+import { log, logTrace } from "../utils/logger"
+
+/**
+ * A resolved way to invoke faex
+ */
+export interface FaexCommand {
+  /** Executable to spawn */
+  command: string
+  /** Arguments placed before the faex arguments (e.g. `-m faex`) */
+  args: string[]
+  /** Where the command was found, for logs and pickers */
+  source: string
+}
+
+/**
+ * Minimal shape of the Python extension API used for interpreter discovery
+ */
+interface PythonExtensionApi {
+  environments?: {
+    getActiveEnvironmentPath(resource?: vscode.Uri): { path: string }
+    onDidChangeActiveEnvironmentPath?: vscode.Event<unknown>
+  }
+}
+
+const PYTHON_EXTENSION_ID = "ms-python.python"
+
+/** Virtual environment directories checked in each workspace folder */
+const VENV_DIRS = [".venv", "venv"]
+
+const isWindows = process.platform === "win32"
+const BIN_DIR = isWindows ? "Scripts" : "bin"
+const FAEX_BINARY = isWindows ? "faex.exe" : "faex"
+
+/** Milliseconds to wait for an interpreter to import faex */
+const IMPORT_PROBE_TIMEOUT = 10000
+
+/**
+ * Resolved commands keyed by workspace folder URI
+ */
+const cache: Map<string, Promise<FaexCommand>> = new Map()
+
+const _onDidClearFaexCommands = new vscode.EventEmitter<void>()
+
+/**
+ * Fired when resolved commands were forgotten, e.g. after faex.faexPath or the interpreter changed
+ */
+export const onDidClearFaexCommands: vscode.Event<void> = _onDidClearFaexCommands.event
+
+/**
+ * Resolve how to run faex for a workspace folder
+ * Order: faex.faexPath when set, the Python extension's selected interpreter,
+ * .venv/venv in the folder, `python -m faex` with the selected interpreter,
+ * then `faex` on PATH
+ */
+export function resolveFaexCommand(folder?: vscode.WorkspaceFolder): Promise<FaexCommand> {
+  const key = folder?.uri.toString() ?? ""
+  let resolved = cache.get(key)
+  if (resolved) {
+    logTrace(`Using cached faex command for ${folder?.name ?? "workspace"}`)
+  } else {
+    resolved = findFaexCommand(folder).then((faex) => {
+      log(`Resolved faex for ${folder?.name ?? "workspace"}: ${formatFaexCommand(faex)}`)
+      return faex
+    })
+    cache.set(key, resolved)
+  }
+  return resolved
+}
+
+/**
+ * List every faex command that could be used for a workspace folder
+ */
+export async function findFaexCandidates(folder?: vscode.WorkspaceFolder): Promise<FaexCommand[]> {
+  const candidates: FaexCommand[] = []
+  const interpreter = await getSelectedInterpreter(folder)
+
+  if (interpreter) {
+    const sibling = path.join(path.dirname(interpreter), FAEX_BINARY)
+    if (await isFile(sibling)) {
+      candidates.push({ command: sibling, args: [], source: "selected Python interpreter" })
+    }
+  }
+
+  if (folder) {
+    for (const venv of VENV_DIRS) {
+      const candidate = path.join(folder.uri.fsPath, venv, BIN_DIR, FAEX_BINARY)
+      if (await isFile(candidate)) {
+        candidates.push({ command: candidate, args: [], source: `${venv} in ${folder.name}` })
+      }
+    }
+  }
+
+  // Only offer `python -m faex` when the interpreter has faex installed
+  if (interpreter && (await canImportFaex(interpreter))) {
+    candidates.push({
+      command: interpreter,
+      args: ["-m", "faex"],
+      source: "python -m faex",
+    })
+  }
+
+  return candidates
+}
+
+/**
+ * Format a command for display
+ */
+export function formatFaexCommand(faex: FaexCommand): string {
+  return `${[faex.command, ...faex.args].join(" ")} (${faex.source})`
+}
+
+/**
+ * Forget resolved commands so they are looked up again
+ */
+export function clearFaexCommandCache(): void {
+  if (cache.size > 0) {
+    log("Cleared resolved faex commands")
+  }
+  cache.clear()
+  _onDidClearFaexCommands.fire()
+}
+
+/**
+ * Re-resolve faex when its setting or the selected interpreter changes
+ */
+export function watchFaexCommand(): vscode.Disposable {
+  const disposables: vscode.Disposable[] = [
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("faex.faexPath")) {
+        clearFaexCommandCache()
+      }
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => clearFaexCommandCache()),
+  ]
+
+  getPythonApi().then((api) => {
+    const onDidChange = api?.environments?.onDidChangeActiveEnvironmentPath
+    if (onDidChange) {
+      disposables.push(onDidChange(() => clearFaexCommandCache()))
+    }
+  })
+
+  return new vscode.Disposable(() => {
+    for (const disposable of disposables) {
+      disposable.dispose()
+    }
+  })
+}
+
+async function findFaexCommand(folder?: vscode.WorkspaceFolder): Promise<FaexCommand> {
+  // An explicitly configured path always wins
+  const inspected = vscode.workspace
+    .getConfiguration("faex", folder?.uri)
+    .inspect<string>("faexPath")
+  const configured =
+    inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue
+  if (configured) {
+    return { command: configured, args: [], source: "faex.faexPath setting" }
+  }
+
+  const [first] = await findFaexCandidates(folder)
+  return first ?? { command: "faex", args: [], source: "PATH" }
+}
+
+async function getSelectedInterpreter(
+  folder?: vscode.WorkspaceFolder
+): Promise<string | undefined> {
+  const api = await getPythonApi()
+  try {
+    const interpreter = api?.environments?.getActiveEnvironmentPath(folder?.uri).path
+    return interpreter && (await isFile(interpreter)) ? interpreter : undefined
+  } catch {
+    return undefined
+  }
+}
+
+async function getPythonApi(): Promise<PythonExtensionApi | undefined> {
+  const extension = vscode.extensions.getExtension<PythonExtensionApi>(PYTHON_EXTENSION_ID)
+  if (!extension) {
+    return undefined
+  }
+  try {
+    return extension.isActive ? extension.exports : await extension.activate()
+  } catch {
+    return undefined
+  }
+}
+
+function canImportFaex(interpreter: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    execFile(interpreter, ["-c", "import faex"], { timeout: IMPORT_PROBE_TIMEOUT }, (error) =>
+      resolve(!error)
+    )
+  })
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile()
+  } catch {
+    return false
+  }
+}
@@ -1,2 +1,8 @@
 export { runFaexCli, isFaexAvailable } from "./cli"
-export { EndpointAnalyzer, createDiagnostic, getAnalyzer, DiagnosticWithMetadata } from "./analyzer"
+export {
+  EndpointAnalyzer,
+  createDiagnostic,
+  createUnusedDiagnostic,
+  getAnalyzer,
+  DiagnosticWithMetadata,
+} from "./analyzer"
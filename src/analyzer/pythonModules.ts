@@ -0,0 +1,296 @@
+import * as path from "path"
+
+/**
+ * A name bound by an import statement
+ * `import a.b as c` binds c to `{ module: "a.b" }`, `from .a import b` binds b to
+ * `{ module: ".a", name: "b" }`
+ */
+export interface ImportBinding {
+  module: string
+  name?: string
+}
+
+/**
+ * What a parser extracts from one Python file; imports are needed to resolve names
+ */
+export interface ParsedModule {
+  imports: Map<string, ImportBinding>
+}
+
+/**
+ * A name defined at the top level of a file
+ */
+export interface SymbolRef {
+  file: string
+  name: string
+}
+
+/** Maximum import re-exports followed when resolving a name */
+const MAX_RESOLVE_DEPTH = 10
+
+/**
+ * Parsed Python files of the workspace keyed by absolute path, with resolution of
+ * names through imports and re-exports
+ */
+export class ModuleTable<T extends ParsedModule> {
+  private modules: Map<string, T> = new Map()
+  /** Workspace folder per parsed file */
+  private roots: Map<string, string | undefined> = new Map()
+
+  constructor(
+    private parse: (text: string) => T,
+    /** Workspace folder of a file, the root of absolute imports */
+    private getRoot: (file: string) => string | undefined
+  ) {}
+
+  /**
+   * Parse a file, or forget it when text is undefined
+   */
+  set(file: string, text: string | undefined): void {
+    const key = path.resolve(file)
+    if (text === undefined) {
+      this.modules.delete(key)
+      this.roots.delete(key)
+    } else {
+      this.modules.set(key, this.parse(text))
+      this.roots.set(key, this.getRoot(key))
+    }
+  }
+
+  clear(): void {
+    this.modules.clear()
+    this.roots.clear()
+  }
+
+  get(file: string): T | undefined {
+    return this.modules.get(path.resolve(file))
+  }
+
+  entries(): IterableIterator<[string, T]> {
+    return this.modules.entries()
+  }
+
+  /**
+   * Workspace folder of a file
+   */
+  rootOf(file: string): string | undefined {
+    const key = path.resolve(file)
+    return this.roots.has(key) ? this.roots.get(key) : this.getRoot(key)
+  }
+
+  /**
+   * Resolve an expression like `router`, `users.router` or an imported name to the
+   * file that defines it, following imports and re-exports
+   */
+  resolve(
+    file: string,
+    expression: string,
+    isDefined: (module: T, name: string) => boolean,
+    depth = 0
+  ): SymbolRef | undefined {
+    const module = this.get(file)
+    if (!module || depth > MAX_RESOLVE_DEPTH) {
+      return undefined
+    }
+
+    const [head, ...rest] = expression.split(".")
+    if (rest.length === 0) {
+      if (isDefined(module, head)) {
+        return { file: path.resolve(file), name: head }
+      }
+      const binding = module.imports.get(head)
+      const target = binding?.name && this.resolveModule(file, binding.module)
+      return binding?.name && target
+        ? this.resolve(target, binding.name, isDefined, depth + 1)
+        : undefined
+    }
+
+    // Attribute of an imported module, e.g. `users.router` or `app.routers.users.router`
+    const binding = module.imports.get(head)
+    if (!binding) {
+      return undefined
+    }
+    const base = binding.name ? joinModule(binding.module, binding.name) : binding.module
+    const modulePath = rest.slice(0, -1).reduce(joinModule, base)
+    const target = this.resolveModule(file, modulePath)
+    return target ? this.resolve(target, rest[rest.length - 1], isDefined, depth + 1) : undefined
+  }
+
+  /**
+   * Find the parsed file of a module imported from a file
+   */
+  resolveModule(fromFile: string, module: string): string | undefined {
+    const dots = module.match(/^\.*/)?.[0].length ?? 0
+    const parts = module.slice(dots).split(".").filter(Boolean)
+
+    let roots: string[]
+    if (dots > 0) {
+      let dir = path.dirname(path.resolve(fromFile))
+      for (let i = 1; i < dots; i++) {
+        dir = path.dirname(dir)
+      }
+      roots = [dir]
+    } else {
+      roots = getImportRoots(fromFile, this.rootOf(fromFile))
+    }
+
+    for (const root of roots) {
+      const base = path.join(root, ...parts)
+      const candidates =
+        parts.length > 0
+          ? [`${base}.py`, path.join(base, "__init__.py")]
+          : [path.join(base, "__init__.py")]
+      const found = candidates.find((candidate) => this.modules.has(candidate))
+      if (found) {
+        return found
+      }
+    }
+
+    return undefined
+  }
+}
+
+/**
+ * Identify a resolved name, e.g. `/app/users.py#router`
+ */
+export function symbolKey(ref: SymbolRef): string {
+  return `${ref.file}#${ref.name}`
+}
+
+/**
+ * Append a name to a module path, e.g. `.` + `users` gives `.users`
+ */
+export function joinModule(base: string, name: string): string {
+  return base.endsWith(".") ? base + name : `${base}.${name}`
+}
+
+/**
+ * Directories absolute imports may be relative to: the file's directory and its parents
+ * up to the workspace folder, and the folder's `src` directory
+ */
+function getImportRoots(file: string, folder: string | undefined): string[] {
+  const roots: string[] = []
+
+  let dir = path.dirname(path.resolve(file))
+  roots.push(dir)
+  while (folder && dir !== path.resolve(folder) && path.dirname(dir) !== dir) {
+    dir = path.dirname(dir)
+    roots.push(dir)
+  }
+
+  if (folder) {
+    roots.push(path.join(path.resolve(folder), "src"))
+  }
+  return roots
+}
+
+/**
+ * Blank out comment lines so commented-out code isn't indexed
+ */
+export function stripComments(text: string): string {
+  return text.replace(/^[ \t]*#.*$/gm, "")
+}
+
+/**
+ * Extract the names bound by `import` and `from ... import` statements
+ */
+export function parseImports(source: string): Map<string, ImportBinding> {
+  const imports: Map<string, ImportBinding> = new Map()
+
+  // import a.b, import a.b as c
+  for (const match of source.matchAll(/^[ \t]*import[ \t]+([^\n;]+)/gm)) {
+    for (const item of match[1].split(",")) {
+      const [name, alias] = item.trim().split(/\s+as\s+/)
+      if (!/^[\w.]+$/.test(name)) {
+        continue
+      }
+      if (alias) {
+        imports.set(alias.trim(), { module: name })
+      } else {
+        imports.set(name.split(".")[0], { module: name.split(".")[0] })
+      }
+    }
+  }
+
+  // from a import b, from .a import (b as c, d)
+  for (const match of source.matchAll(
+    /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n;]+)/gm
+  )) {
+    const names = match[2].replace(/[()\\]/g, " ")
+    for (const item of names.split(",")) {
+      const [name, alias] = item.trim().split(/\s+as\s+/)
+      if (/^\w+$/.test(name)) {
+        imports.set((alias ?? name).trim(), { module: match[1], name })
+      }
+    }
+  }
+
+  return imports
+}
+
+/**
+ * Read the text between the parenthesis at an offset and its closing parenthesis
+ */
+export function readArguments(text: string, openOffset: number): string | undefined {
+  let depth = 0
+  let quote = ""
+
+  for (let i = openOffset; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === "\\") {
+        i++
+      } else if (char === quote) {
+        quote = ""
+      }
+      continue
+    }
+    if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === "(" || char === "[" || char === "{") {
+      depth++
+    } else if (char === ")" || char === "]" || char === "}") {
+      depth--
+      if (depth === 0) {
+        return text.substring(openOffset + 1, i)
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Split call arguments at top-level commas
+ */
+export function splitArguments(args: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let quote = ""
+  let start = 0
+
+  for (let i = 0; i < args.length; i++) {
+    const char = args[i]
+    if (quote) {
+      if (char === "\\") {
+        i++
+      } else if (char === quote) {
+        quote = ""
+      }
+      continue
+    }
+    if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === "(" || char === "[" || char === "{") {
+      depth++
+    } else if (char === ")" || char === "]" || char === "}") {
+      depth--
+    } else if (char === "," && depth === 0) {
+      parts.push(args.substring(start, i))
+      start = i + 1
+    }
+  }
+
+  parts.push(args.substring(start))
+  return parts
+}
@@ -0,0 +1,174 @@
+import * as path from "path"
+import { EndpointInfo, getEndpointPaths } from "../types"
+
+/**
+ * A route of an endpoint that another endpoint registers too, or that an
+ * earlier route of the same router already matches
+ */
+export interface RouteConflict {
+  kind: "duplicate" | "shadowed"
+  /** Endpoint the conflict is reported on */
+  endpoint: EndpointInfo
+  /** Full path of the endpoint that conflicts */
+  path: string
+  /** Endpoints registering the same route, or the earlier routes shadowing it */
+  others: { endpoint: EndpointInfo; path: string }[]
+}
+
+/**
+ * One segment of a route path, e.g. `users` or `{user_id:int}`
+ */
+interface Segment {
+  text: string
+  /** Path convertor of a parameter segment, `str` when none is given */
+  convertor?: string
+}
+
+interface Route {
+  endpoint: EndpointInfo
+  path: string
+  /** Method and path pattern, ignoring parameter names, e.g. `GET /users/{:int}` */
+  key: string
+}
+
+/** Values each Starlette path convertor matches within one segment */
+const CONVERTOR_PATTERNS: Record<string, RegExp> = {
+  str: /^[^/]+$/,
+  int: /^[0-9]+$/,
+  float: /^[0-9]+(\.[0-9]+)?$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/,
+}
+
+/**
+ * Find routes registered by more than one endpoint of the same application, and routes
+ * shadowed by an earlier route of the same router, e.g. `/users/me` declared after
+ * `/users/{user_id}`
+ * Routes of different workspace folders or applications never conflict; endpoints whose
+ * mount can't be resolved are only compared with endpoints of the same router
+ */
+export function findRouteConflicts(endpoints: EndpointInfo[]): RouteConflict[] {
+  const conflicts: RouteConflict[] = []
+
+  // Same method and path pattern within one application
+  const byKey = new Map<string, Route[]>()
+  for (const endpoint of endpoints) {
+    const method = endpoint.method.toUpperCase()
+    const folder = endpoint.workspaceFolder ?? ""
+    const routes = endpoint.mounts?.length
+      ? endpoint.mounts.map((mount) => ({ path: mount.path, scope: `app:${mount.app}` }))
+      : [{ path: endpoint.path, scope: `router:${routerId(endpoint)}` }]
+
+    for (const { path: routePath, scope } of routes) {
+      const key = routeKey(method, parseSegments(routePath))
+      const group = `${folder}\n${scope}\n${key}`
+      const list = byKey.get(group) ?? []
+      list.push({ endpoint, path: routePath, key })
+      byKey.set(group, list)
+    }
+  }
+  for (const group of byKey.values()) {
+    for (const route of group) {
+      const others = group.filter((other) => other.endpoint !== route.endpoint)
+      if (others.length > 0) {
+        conflicts.push({
+          kind: "duplicate",
+          endpoint: route.endpoint,
+          path: route.path,
+          others: others.map(({ endpoint, path }) => ({ endpoint, path })),
+        })
+      }
+    }
+  }
+
+  // Routes of one router are matched in the order they are declared; they share their
+  // mounts, so comparing the decorator paths is enough
+  const byRouter = new Map<string, EndpointInfo[]>()
+  for (const endpoint of endpoints) {
+    const list = byRouter.get(routerId(endpoint)) ?? []
+    list.push(endpoint)
+    byRouter.set(routerId(endpoint), list)
+  }
+  for (const group of byRouter.values()) {
+    for (const endpoint of group) {
+      const method = endpoint.method.toUpperCase()
+      const segments = parseSegments(endpoint.path)
+      const key = routeKey(method, segments)
+      const others = group.filter(
+        (earlier) =>
+          earlier.method.toUpperCase() === method &&
+          earlier.decoratorLine < endpoint.decoratorLine &&
+          routeKey(method, parseSegments(earlier.path)) !== key &&
+          shadows(parseSegments(earlier.path), segments)
+      )
+      if (others.length > 0) {
+        conflicts.push({
+          kind: "shadowed",
+          endpoint,
+          path: getEndpointPaths(endpoint).join(", "),
+          others: others.map((other) => ({
+            endpoint: other,
+            path: getEndpointPaths(other).join(", "),
+          })),
+        })
+      }
+    }
+  }
+
+  return conflicts
+}
+
+function parseSegments(routePath: string): Segment[] {
+  return routePath.split("/").map((text) => {
+    const param = text.match(/^\{\w+(?::(\w+))?\}$/)
+    return param ? { text, convertor: param[1] ?? "str" } : { text }
+  })
+}
+
+/**
+ * Key of a route that ignores parameter names, e.g. `GET /users/{:int}`
+ */
+function routeKey(method: string, segments: Segment[]): string {
+  const pattern = segments
+    .map((segment) => (segment.convertor ? `{:${segment.convertor}}` : segment.text))
+    .join("/")
+  return `${method} ${pattern}`
+}
+
+/**
+ * Identify the router an endpoint is declared on, e.g. `/app/users.py#router`
+ */
+function routerId(endpoint: EndpointInfo): string {
+  return `${path.resolve(endpoint.file)}#${endpoint.router ?? ""}`
+}
+
+/**
+ * Check if every request matching the later route also matches the earlier one
+ */
+function shadows(earlier: Segment[], later: Segment[]): boolean {
+  for (let i = 0; i < earlier.length; i++) {
+    const a = earlier[i]
+
+    // `{file_path:path}` matches the rest of the path, slashes included
+    if (a.convertor === "path") {
+      return later.length > i
+    }
+    if (i >= later.length) {
+      return false
+    }
+
+    const b = later[i]
+    if (!a.convertor) {
+      if (b.convertor || a.text !== b.text) {
+        return false
+      }
+    } else if (b.convertor) {
+      if (b.convertor === "path" || (a.convertor !== "str" && a.convertor !== b.convertor)) {
+        return false
+      }
+    } else if (!CONVERTOR_PATTERNS[a.convertor]?.test(b.text)) {
+      return false
+    }
+  }
+
+  return earlier.length === later.length
+}
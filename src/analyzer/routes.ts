@@ -0,0 +1,217 @@
+import * as path from "path"
+import { EndpointInfo } from "../types"
+import { SourceDocument } from "../utils/sourceDocument"
+import {
+  ImportBinding,
+  ModuleTable,
+  SymbolRef,
+  parseImports,
+  readArguments,
+  splitArguments,
+  stripComments,
+  symbolKey,
+} from "./pythonModules"
+import { SourceParser } from "./sourceIndex"
+
+/**
+ * An `APIRouter(...)` or `FastAPI(...)` assignment
+ */
+interface RouterDefinition {
+  kind: "router" | "app"
+  /** Literal `prefix=` argument; undefined when it isn't a string literal */
+  prefix: string | undefined
+}
+
+/**
+ * A `parent.include_router(child, prefix=...)` call
+ */
+interface RouterInclude {
+  parent: string
+  child: string
+  /** Literal `prefix=` argument; undefined when it isn't a string literal */
+  prefix: string | undefined
+}
+
+/**
+ * Routing-related statements of one Python file
+ */
+interface ModuleInfo {
+  imports: Map<string, ImportBinding>
+  routers: Map<string, RouterDefinition>
+  includes: RouterInclude[]
+}
+
+/**
+ * Where a router is included, keyed by the included router
+ */
+interface Mount {
+  file: string
+  parent: string
+  prefix: string | undefined
+}
+
+/**
+ * Index of FastAPI routers and how they are mounted, used to compute the full
+ * paths of endpoints from `APIRouter(prefix=...)` and `include_router` chains
+ */
+export class RouteIndex implements SourceParser {
+  private modules: ModuleTable<ModuleInfo>
+  /** Mounts per included router, rebuilt after changes */
+  private mounts: Map<string, Mount[]> | undefined
+
+  /**
+   * @param getRoot Workspace folder of a file, the root of absolute imports
+   */
+  constructor(getRoot: (file: string) => string | undefined) {
+    this.modules = new ModuleTable(parseModule, getRoot)
+  }
+
+  setSource(file: string, text: string | undefined): void {
+    this.modules.set(file, text)
+    this.mounts = undefined
+  }
+
+  clear(): void {
+    this.modules.clear()
+    this.mounts = undefined
+  }
+
+  /**
+   * Find the router an endpoint is declared on and compute its full paths
+   */
+  resolveEndpoint(endpoint: EndpointInfo, document: SourceDocument): EndpointInfo {
+    const line = endpoint.decoratorLine - 1
+    const text = line >= 0 && line < document.lineCount ? document.lineAt(line).text : ""
+    const router = text.match(/^\s*@\s*([\w.]+)\.\w+\s*\(/)?.[1]
+    return this.resolve({ ...endpoint, router })
+  }
+
+  /**
+   * Recompute the full paths of an endpoint whose router is known
+   */
+  resolve(endpoint: EndpointInfo): EndpointInfo {
+    const ref = endpoint.router ? this.resolveRouter(endpoint.file, endpoint.router) : undefined
+    const prefixes = ref && this.getMountPrefixes(ref, new Set())
+    const mounts = prefixes?.map(({ prefix, app }) => ({ path: prefix + endpoint.path, app }))
+    return { ...endpoint, mounts }
+  }
+
+  /**
+   * Prefixes to prepend to the paths of a router's endpoints, one per place it is mounted,
+   * with the application each is served by
+   * Returns undefined when no mount can be resolved
+   */
+  private getMountPrefixes(
+    ref: SymbolRef,
+    visiting: Set<string>
+  ): { prefix: string; app: string }[] | undefined {
+    const definition = this.modules.get(ref.file)?.routers.get(ref.name)
+    if (!definition || definition.prefix === undefined) {
+      return undefined
+    }
+    if (definition.kind === "app") {
+      return [{ prefix: "", app: symbolKey(ref) }]
+    }
+
+    const key = symbolKey(ref)
+    if (visiting.has(key)) {
+      return undefined
+    }
+    visiting.add(key)
+
+    const prefixes = new Map<string, { prefix: string; app: string }>()
+    for (const mount of this.getMounts().get(key) ?? []) {
+      if (mount.prefix === undefined) {
+        continue
+      }
+      // Parents that aren't assigned from APIRouter() or FastAPI(), e.g. `app = create_app()`,
+      // are treated as the application
+      const parent = this.resolveRouter(mount.file, mount.parent)
+      const parentPrefixes = parent
+        ? this.getMountPrefixes(parent, visiting)
+        : [{ prefix: "", app: symbolKey({ file: path.resolve(mount.file), name: mount.parent }) }]
+      for (const { prefix, app } of parentPrefixes ?? []) {
+        const full = prefix + mount.prefix + definition.prefix
+        prefixes.set(`${app} ${full}`, { prefix: full, app })
+      }
+    }
+
+    visiting.delete(key)
+    return prefixes.size > 0 ? [...prefixes.values()] : undefined
+  }
+
+  private getMounts(): Map<string, Mount[]> {
+    if (this.mounts) {
+      return this.mounts
+    }
+
+    const mounts: Map<string, Mount[]> = new Map()
+    for (const [file, module] of this.modules.entries()) {
+      for (const include of module.includes) {
+        const child = this.resolveRouter(file, include.child)
+        if (!child) {
+          continue
+        }
+        const list = mounts.get(symbolKey(child)) ?? []
+        list.push({ file, parent: include.parent, prefix: include.prefix })
+        mounts.set(symbolKey(child), list)
+      }
+    }
+
+    this.mounts = mounts
+    return mounts
+  }
+
+  /**
+   * Resolve an expression like `router`, `users.router` or an imported name to the
+   * router variable it refers to
+   */
+  private resolveRouter(file: string, expression: string): SymbolRef | undefined {
+    return this.modules.resolve(file, expression, (module, name) => module.routers.has(name))
+  }
+}
+
+/**
+ * Extract imports, router assignments and include_router calls from Python source
+ */
+function parseModule(text: string): ModuleInfo {
+  const source = stripComments(text)
+  const module: ModuleInfo = { imports: parseImports(source), routers: new Map(), includes: [] }
+
+  // router = APIRouter(prefix="/users"), app = FastAPI()
+  for (const match of source.matchAll(
+    /^[ \t]*(\w+)[ \t]*(?::[^=\n]+)?=[ \t]*(?:\w+\.)*(APIRouter|FastAPI)[ \t]*\(/gm
+  )) {
+    const args = readArguments(source, (match.index ?? 0) + match[0].length - 1)
+    module.routers.set(match[1], {
+      kind: match[2] === "FastAPI" ? "app" : "router",
+      prefix: match[2] === "FastAPI" ? "" : readPrefix(args ?? ""),
+    })
+  }
+
+  // parent.include_router(child, prefix="/v1")
+  for (const match of source.matchAll(/([\w.]+)\s*\.\s*include_router\s*\(/g)) {
+    const args = readArguments(source, (match.index ?? 0) + match[0].length - 1)
+    const child = args && splitArguments(args)[0]?.trim()
+    if (child && /^[\w.]+$/.test(child)) {
+      module.includes.push({ parent: match[1], child, prefix: readPrefix(args) })
+    }
+  }
+
+  return module
+}
+
+/**
+ * Read the literal `prefix=` argument of a call
+ * Returns "" when there is none and undefined when it isn't a plain string literal
+ */
+function readPrefix(args: string): string | undefined {
+  const argument = splitArguments(args)
+    .map((arg) => arg.trim())
+    .find((arg) => /^prefix\s*=/.test(arg))
+  if (!argument) {
+    return ""
+  }
+  const literal = argument.match(/^prefix\s*=\s*(["'])([^"'{}]*)\1$/)
+  return literal ? literal[2] : undefined
+}
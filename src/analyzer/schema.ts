@@ -0,0 +1,281 @@
+import { FaexEndpoint, FaexException, FaexJsonOutput } from "./cli"
+
+/**
+ * faex CLI versions this extension can read: the minimum, and the first version it
+ * wasn't tested with
+ * Newer versions still run; their output is gated by `schema_version`
+ */
+export const SUPPORTED_FAEX_VERSIONS = { minimum: "0.1.0", testedBelow: "1.0.0" }
+
+/**
+ * Newest `schema_version` of the JSON output this extension knows
+ * Output without `schema_version` is treated as version 1
+ */
+export const LATEST_SCHEMA_VERSION = 1
+
+/**
+ * Raised when faex output doesn't have the expected structure
+ */
+export class FaexSchemaError extends Error {
+  constructor(
+    message: string,
+    /** Location of the offending value, e.g. `endpoints[2].line` */
+    public readonly path: string
+  ) {
+    super(`${path || "output"}: ${message}`)
+    this.name = "FaexSchemaError"
+  }
+}
+
+/**
+ * Result of checking a faex version against the supported range
+ */
+export interface VersionCheck {
+  compatible: boolean
+  /** Actionable explanation when the version isn't compatible, or a warning when it is untested */
+  message?: string
+}
+
+type Json = Record<string, unknown>
+
+/**
+ * Converts raw output of one schema version to the latest version
+ */
+type SchemaAdapter = (output: Json) => Json
+
+/**
+ * Adapters keyed by the schema version they read
+ */
+const ADAPTERS: Record<number, SchemaAdapter> = {
+  1: adaptV1,
+}
+
+/**
+ * Check a `faex --version` string against the minimum version
+ * Versions newer than the tested ones are compatible with a warning
+ */
+export function checkFaexVersion(versionOutput: string): VersionCheck {
+  const version = parseVersion(versionOutput)
+  const range = `>=${SUPPORTED_FAEX_VERSIONS.minimum} <${SUPPORTED_FAEX_VERSIONS.testedBelow}`
+
+  if (!version) {
+    // Can't tell; let schema validation decide
+    return { compatible: true }
+  }
+  if (compareVersions(version, SUPPORTED_FAEX_VERSIONS.minimum) < 0) {
+    return {
+      compatible: false,
+      message: `faex ${version} is too old (supported: ${range}). Upgrade it with 'pip install -U faex'.`,
+    }
+  }
+  if (compareVersions(version, SUPPORTED_FAEX_VERSIONS.testedBelow) >= 0) {
+    return {
+      compatible: true,
+      message: `faex ${version} is newer than this extension was tested with (${range}). If results look wrong, update the faex extension.`,
+    }
+  }
+  return { compatible: true }
+}
+
+/**
+ * Extract `x.y.z` from `faex --version` output, e.g. `faex 0.3.1`
+ */
+export function parseVersion(versionOutput: string): string | undefined {
+  return versionOutput.match(/(\d+)\.(\d+)(?:\.(\d+))?/)?.[0]
+}
+
+/**
+ * Parse, adapt and validate faex JSON output
+ * Throws FaexSchemaError with the location of the first invalid value
+ */
+export function parseFaexOutput(stdout: string): FaexJsonOutput {
+  let data: unknown
+  try {
+    data = JSON.parse(stdout)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    throw new FaexSchemaError(`not valid JSON (${message})`, "")
+  }
+
+  return validateFaexOutput(data)
+}
+
+/**
+ * Adapt and validate parsed faex output, e.g. a faex server response
+ * Throws FaexSchemaError with the location of the first invalid value
+ */
+export function validateFaexOutput(data: unknown): FaexJsonOutput {
+  const output = expectObject(data, "")
+  const schemaVersion = output.schema_version ?? 1
+  if (typeof schemaVersion !== "number" || !Number.isInteger(schemaVersion)) {
+    throw new FaexSchemaError(
+      `expected an integer, got ${describe(schemaVersion)}`,
+      "schema_version"
+    )
+  }
+  if (schemaVersion > LATEST_SCHEMA_VERSION) {
+    throw new FaexSchemaError(
+      `schema version ${schemaVersion} is newer than this extension supports (${LATEST_SCHEMA_VERSION}). Update the faex extension.`,
+      "schema_version"
+    )
+  }
+
+  const adapter = ADAPTERS[schemaVersion]
+  if (!adapter) {
+    throw new FaexSchemaError(`unsupported schema version ${schemaVersion}`, "schema_version")
+  }
+
+  return validateOutput(adapter(output))
+}
+
+/**
+ * Version 1: fields added later in the 0.x series are optional
+ */
+function adaptV1(output: Json): Json {
+  return {
+    ...output,
+    errors: output.errors ?? [],
+    summary: output.summary ?? summarize(Array.isArray(output.endpoints) ? output.endpoints : []),
+  }
+}
+
+/**
+ * Compute the summary older faex versions didn't print
+ */
+function summarize(endpoints: unknown[]): Json {
+  const undeclaredCounts = endpoints.map((endpoint) => {
+    const undeclared = (endpoint as Json | null)?.undeclared_exceptions
+    return Array.isArray(undeclared) ? undeclared.length : 0
+  })
+  return {
+    total_endpoints: endpoints.length,
+    endpoints_with_issues: undeclaredCounts.filter((count) => count > 0).length,
+    total_undeclared: undeclaredCounts.reduce((sum, count) => sum + count, 0),
+  }
+}
+
+function validateOutput(output: Json): FaexJsonOutput {
+  const summary = expectObject(output.summary, "summary")
+  return {
+    summary: {
+      total_endpoints: expectNumber(summary.total_endpoints, "summary.total_endpoints"),
+      endpoints_with_issues: expectNumber(
+        summary.endpoints_with_issues,
+        "summary.endpoints_with_issues"
+      ),
+      total_undeclared: expectNumber(summary.total_undeclared, "summary.total_undeclared"),
+    },
+    endpoints: expectArray(output.endpoints, "endpoints").map((value, i) =>
+      validateEndpoint(value, `endpoints[${i}]`)
+    ),
+    errors: expectArray(output.errors, "errors").map((value, i) =>
+      expectString(value, `errors[${i}]`)
+    ),
+  }
+}
+
+function validateEndpoint(value: unknown, path: string): FaexEndpoint {
+  const endpoint = expectObject(value, path)
+  const detected = endpoint.detected_exceptions
+  const bases = endpoint.exception_bases
+  return {
+    file: expectString(endpoint.file, `${path}.file`),
+    line: expectNumber(endpoint.line, `${path}.line`),
+    function: expectString(endpoint.function, `${path}.function`),
+    method: expectString(endpoint.method, `${path}.method`),
+    path: expectString(endpoint.path, `${path}.path`),
+    declared_exceptions: expectArray(
+      endpoint.declared_exceptions,
+      `${path}.declared_exceptions`
+    ).map((name, i) => expectString(name, `${path}.declared_exceptions[${i}]`)),
+    undeclared_exceptions: expectArray(
+      endpoint.undeclared_exceptions,
+      `${path}.undeclared_exceptions`
+    ).map((exc, i) => validateException(exc, `${path}.undeclared_exceptions[${i}]`)),
+    detected_exceptions:
+      detected === undefined
+        ? undefined
+        : expectArray(detected, `${path}.detected_exceptions`).map((exc, i) =>
+            validateException(exc, `${path}.detected_exceptions[${i}]`)
+          ),
+    exception_bases:
+      bases === undefined ? undefined : validateBases(bases, `${path}.exception_bases`),
+  }
+}
+
+function validateBases(value: unknown, path: string): Record<string, string[]> {
+  const bases: Record<string, string[]> = {}
+  for (const [name, list] of Object.entries(expectObject(value, path))) {
+    bases[name] = expectArray(list, `${path}.${name}`).map((base, i) =>
+      expectString(base, `${path}.${name}[${i}]`)
+    )
+  }
+  return bases
+}
+
+function validateException(value: unknown, path: string): FaexException {
+  const exception = expectObject(value, path)
+  const inFunction = exception.in_function ?? null
+  return {
+    class: expectString(exception.class, `${path}.class`),
+    file: expectString(exception.file, `${path}.file`),
+    line: expectNumber(exception.line, `${path}.line`),
+    in_function: inFunction === null ? null : expectString(inFunction, `${path}.in_function`),
+  }
+}
+
+function expectObject(value: unknown, path: string): Json {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new FaexSchemaError(`expected an object, got ${describe(value)}`, path)
+  }
+  return value as Json
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new FaexSchemaError(`expected an array, got ${describe(value)}`, path)
+  }
+  return value
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    throw new FaexSchemaError(`expected a string, got ${describe(value)}`, path)
+  }
+  return value
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number") {
+    throw new FaexSchemaError(`expected a number, got ${describe(value)}`, path)
+  }
+  return value
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null"
+  }
+  if (Array.isArray(value)) {
+    return "an array"
+  }
+  if (value === undefined) {
+    return "nothing"
+  }
+  return typeof value === "object" ? "an object" : `${typeof value} ${JSON.stringify(value)}`
+}
+
+/**
+ * Compare two `x.y.z` versions
+ */
+function compareVersions(a: string, b: string): number {
+  const pa = a.split(".").map(Number)
+  const pb = b.split(".").map(Number)
+  for (let i = 0; i < 3; i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0)
+    if (diff !== 0) {
+      return diff
+    }
+  }
+  return 0
+}
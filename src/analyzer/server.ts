@@ -0,0 +1,467 @@
+import * as vscode from "vscode"
+import { ChildProcess, spawn } from "child_process"
+import { getConfig, getWorkspaceFolder } from "../utils/config"
+import { log, logDebug, logWarning, truncateOutput } from "../utils/logger"
+import {
+  FaexCancelledError,
+  FaexJsonOutput,
+  FaexRunError,
+  FaexTimeoutError,
+  trackRunEnd,
+  trackRunStart,
+  withoutShadowFiles,
+} from "./cli"
+import { FaexCommand, formatFaexCommand, resolveFaexCommand } from "./executable"
+import { checkFaexVersion, validateFaexOutput } from "./schema"
+
+/**
+ * faex server protocol: JSON-RPC 2.0 over stdio, one JSON message per line
+ *
+ * - `initialize` → `{ version }`
+ * - `analyze-file` `{ path, content?, depth, ignore }` → faex JSON output
+ * - `analyze-workspace` `{ root, depth, ignore }` → faex JSON output
+ * - `invalidate-file` `{ path }` notification
+ * - `shutdown` → null
+ * - `$/cancelRequest` `{ id }` notification
+ */
+const SERVER_ARGS = ["serve", "--stdio"]
+
+/** JSON-RPC error code of requests for methods the server doesn't implement */
+const METHOD_NOT_FOUND = -32601
+
+/** Milliseconds to wait for `initialize` before treating the server as unsupported */
+const INITIALIZE_TIMEOUT = 10000
+
+/** Crashes within RESTART_WINDOW after which the CLI is used instead */
+const MAX_RESTARTS = 3
+const RESTART_WINDOW = 60000
+
+interface JsonRpcResponse {
+  id?: number
+  result?: unknown
+  error?: { code: number; message: string; data?: unknown }
+}
+
+interface PendingRequest {
+  method: string
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Raised for requests lost when the server process exits
+ */
+class FaexServerExitedError extends Error {
+  constructor(code: number | null) {
+    super(`faex server exited with code ${code}`)
+    this.name = "FaexServerExitedError"
+  }
+}
+
+/**
+ * Raised for requests the server doesn't implement, e.g. methods added in newer faex versions
+ */
+class FaexMethodNotFoundError extends Error {
+  constructor(public readonly method: string) {
+    super(`faex server has no ${method} method`)
+    this.name = "FaexMethodNotFoundError"
+  }
+}
+
+/**
+ * A persistent `faex serve --stdio` process for one workspace folder
+ */
+class FaexServer implements vscode.Disposable {
+  private process: ChildProcess | undefined
+  private ready: Promise<boolean> | undefined
+  private pending: Map<number, PendingRequest> = new Map()
+  private nextId = 1
+  private buffer = ""
+  private stderr = ""
+  private crashes: number[] = []
+  /** Set once `initialize` succeeded; only then are exits treated as crashes */
+  private initialized = false
+  /** Set once the server turned out not to work; the CLI is used from then on */
+  private unsupported = false
+  /** Methods the server answered with "method not found"; the CLI is used for them */
+  readonly missingMethods: Set<string> = new Set()
+
+  constructor(
+    public readonly faex: FaexCommand,
+    private cwd?: string
+  ) {}
+
+  /**
+   * Start the server if it isn't running
+   * Resolves false when faex has no usable server mode
+   */
+  start(): Promise<boolean> {
+    if (this.unsupported) {
+      return Promise.resolve(false)
+    }
+    if (!this.ready) {
+      this.ready = this.launch()
+    }
+    return this.ready
+  }
+
+  /**
+   * Send a request and wait for its result
+   */
+  request(
+    method: string,
+    params: unknown,
+    token?: vscode.CancellationToken,
+    timeoutSeconds = 0
+  ): Promise<unknown> {
+    const process = this.process
+    if (!process?.stdin?.writable) {
+      return Promise.reject(new FaexServerExitedError(null))
+    }
+
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined
+      const cleanup = () => {
+        clearTimeout(timer)
+        cancellation?.dispose()
+        this.pending.delete(id)
+      }
+
+      this.pending.set(id, {
+        method,
+        resolve: (result) => {
+          cleanup()
+          resolve(result)
+        },
+        reject: (error) => {
+          cleanup()
+          reject(error)
+        },
+      })
+
+      if (timeoutSeconds > 0) {
+        timer = setTimeout(() => {
+          cleanup()
+          reject(new FaexTimeoutError(timeoutSeconds))
+          // A stuck server would block every later request
+          logWarning(`faex server did not answer ${method} within ${timeoutSeconds}s, restarting`)
+          this.restart()
+        }, timeoutSeconds * 1000)
+      }
+
+      const cancellation = token?.onCancellationRequested(() => {
+        cleanup()
+        this.notify("$/cancelRequest", { id })
+        reject(new FaexCancelledError())
+      })
+
+      this.send({ jsonrpc: "2.0", id, method, params })
+    })
+  }
+
+  /**
+   * Send a notification, which has no response
+   */
+  notify(method: string, params: unknown): void {
+    if (this.process?.stdin?.writable) {
+      this.send({ jsonrpc: "2.0", method, params })
+    }
+  }
+
+  private send(message: object): void {
+    this.process?.stdin?.write(JSON.stringify(message) + "\n")
+  }
+
+  private async launch(): Promise<boolean> {
+    const args = [...this.faex.args, ...SERVER_ARGS]
+    log(`Starting faex server: ${[this.faex.command, ...args].join(" ")} (cwd: ${this.cwd})`)
+
+    this.initialized = false
+    this.buffer = ""
+    this.stderr = ""
+    const process = spawn(this.faex.command, args, { cwd: this.cwd })
+    this.process = process
+
+    process.stdout?.on("data", (data) => this.handleData(data.toString()))
+    process.stderr?.on("data", (data) => {
+      // Keep the end of stderr for crash reports
+      this.stderr = (this.stderr + data.toString()).slice(-4000)
+    })
+    process.on("error", (err) => {
+      logDebug(`faex server failed to start: ${err.message}`)
+      this.handleExit(process, null)
+    })
+    process.on("exit", (code) => this.handleExit(process, code))
+    // Writes after the process died fail with EPIPE; the exit handler reports it
+    process.stdin?.on("error", (err) => logDebug(`faex server stdin: ${err.message}`))
+
+    let timer: NodeJS.Timeout | undefined
+    try {
+      const initialize = this.request("initialize", { client: "faex-vscode" })
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error("no response to initialize")), INITIALIZE_TIMEOUT)
+      })
+      const result = (await Promise.race([initialize, timeout])) as { version?: unknown }
+
+      const version = typeof result?.version === "string" ? result.version : undefined
+      const versionCheck = version ? checkFaexVersion(version) : { compatible: true }
+      if (!versionCheck.compatible) {
+        throw new Error(versionCheck.message)
+      }
+
+      log(`faex server ${version ?? "(unknown version)"} is ready`)
+      this.initialized = true
+      return true
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      log(`faex server mode is not available (${reason}); running faex for every check`)
+      logDebug(`faex server stderr: ${truncateOutput(this.stderr)}`)
+      this.unsupported = true
+      this.stop()
+      return false
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private handleData(data: string): void {
+    this.buffer += data
+    let newline = this.buffer.indexOf("\n")
+    while (newline >= 0) {
+      const line = this.buffer.substring(0, newline).trim()
+      this.buffer = this.buffer.substring(newline + 1)
+      if (line) {
+        this.handleMessage(line)
+      }
+      newline = this.buffer.indexOf("\n")
+    }
+  }
+
+  private handleMessage(line: string): void {
+    let message: JsonRpcResponse
+    try {
+      message = JSON.parse(line) as JsonRpcResponse
+    } catch {
+      logDebug(`Ignored faex server output that isn't JSON: ${truncateOutput(line)}`)
+      return
+    }
+
+    // Responses to cancelled or timed out requests are dropped
+    const request = message.id !== undefined ? this.pending.get(message.id) : undefined
+    if (!request) {
+      return
+    }
+
+    if (message.error?.code === METHOD_NOT_FOUND) {
+      this.missingMethods.add(request.method)
+      request.reject(new FaexMethodNotFoundError(request.method))
+    } else if (message.error) {
+      request.reject(
+        new FaexRunError(
+          `faex server failed to ${request.method}: ${message.error.message}`,
+          JSON.stringify(message.error, null, 2)
+        )
+      )
+    } else {
+      request.resolve(message.result)
+    }
+  }
+
+  private handleExit(process: ChildProcess, code: number | null): void {
+    // Exits of stopped processes were handled by stop()
+    if (process !== this.process) {
+      return
+    }
+    this.process = undefined
+    this.rejectPending(code)
+
+    // Failures before `initialize` succeeded are handled by launch()
+    if (!this.initialized || this.unsupported) {
+      return
+    }
+    this.ready = undefined
+
+    // Restart after a crash unless it keeps crashing
+    const now = Date.now()
+    this.crashes = [...this.crashes.filter((time) => now - time < RESTART_WINDOW), now]
+    logWarning(`faex server exited unexpectedly with code ${code}`)
+    logDebug(`faex server stderr: ${truncateOutput(this.stderr)}`)
+
+    if (this.crashes.length > MAX_RESTARTS) {
+      logWarning(
+        `faex server crashed ${this.crashes.length} times in a minute; running faex for every check`
+      )
+      this.unsupported = true
+      return
+    }
+    this.start()
+  }
+
+  private restart(): void {
+    this.stop()
+    this.start()
+  }
+
+  private stop(): void {
+    const process = this.process
+    if (!process) {
+      return
+    }
+    this.notify("shutdown", null)
+    process.stdin?.end()
+    process.kill()
+    this.process = undefined
+    this.ready = undefined
+    this.rejectPending(null)
+  }
+
+  private rejectPending(code: number | null): void {
+    for (const request of [...this.pending.values()]) {
+      request.reject(new FaexServerExitedError(code))
+    }
+  }
+
+  /**
+   * Stop the server
+   */
+  dispose(): void {
+    this.stop()
+  }
+}
+
+/**
+ * Servers per workspace folder
+ */
+const servers: Map<string, FaexServer> = new Map()
+
+/**
+ * Get a running server for a workspace folder, or undefined to use the CLI
+ */
+async function getServer(folder?: vscode.WorkspaceFolder): Promise<FaexServer | undefined> {
+  const key = folder?.uri.toString() ?? ""
+  let server = servers.get(key)
+
+  if (!getConfig(folder?.uri).useServer) {
+    server?.dispose()
+    servers.delete(key)
+    return undefined
+  }
+
+  const faex = await resolveFaexCommand(folder)
+
+  // The executable changed, e.g. another interpreter was selected
+  if (server && formatFaexCommand(server.faex) !== formatFaexCommand(faex)) {
+    server.dispose()
+    server = undefined
+  }
+  if (!server) {
+    server = new FaexServer(faex, folder?.uri.fsPath)
+    servers.set(key, server)
+  }
+
+  return (await server.start()) ? server : undefined
+}
+
+/**
+ * Send an analysis request, tracked like a CLI run
+ * Resolves undefined when the server exited or lacks the method so the caller can use the CLI
+ */
+async function analyze(
+  server: FaexServer,
+  method: string,
+  params: object,
+  timeoutSeconds: number,
+  token?: vscode.CancellationToken
+): Promise<FaexJsonOutput | undefined> {
+  if (server.missingMethods.has(method)) {
+    return undefined
+  }
+
+  const startedAt = Date.now()
+  trackRunStart()
+  try {
+    const result = await server.request(method, params, token, timeoutSeconds)
+    log(`faex server answered ${method} in ${Date.now() - startedAt}ms`)
+    // A server watching the workspace may have read leftover shadow files of unsaved buffers
+    return withoutShadowFiles(validateFaexOutput(result))
+  } catch (error) {
+    if (error instanceof FaexServerExitedError) {
+      return undefined
+    }
+    if (error instanceof FaexMethodNotFoundError) {
+      log(`${error.message}; running faex for ${method} instead`)
+      return undefined
+    }
+    throw error
+  } finally {
+    trackRunEnd()
+  }
+}
+
+/**
+ * Analyze a file with the faex server; pass content to analyze an unsaved buffer
+ * Resolves undefined when the server isn't available
+ */
+export async function analyzeFileWithServer(
+  filePath: string,
+  content: string | undefined,
+  token?: vscode.CancellationToken
+): Promise<FaexJsonOutput | undefined> {
+  const folder = getWorkspaceFolder(filePath)
+  const server = await getServer(folder)
+  if (!server) {
+    return undefined
+  }
+
+  const config = getConfig(vscode.Uri.file(filePath))
+  return analyze(
+    server,
+    "analyze-file",
+    { path: filePath, content, depth: config.depth, ignore: config.ignore },
+    config.timeout,
+    token
+  )
+}
+
+/**
+ * Analyze a workspace folder with the faex server
+ * Resolves undefined when the server isn't available
+ */
+export async function analyzeWorkspaceWithServer(
+  folder: vscode.WorkspaceFolder,
+  token?: vscode.CancellationToken
+): Promise<FaexJsonOutput | undefined> {
+  const server = await getServer(folder)
+  if (!server) {
+    return undefined
+  }
+
+  const config = getConfig(folder.uri)
+  return analyze(
+    server,
+    "analyze-workspace",
+    { root: folder.uri.fsPath, depth: config.depth, ignore: config.ignore },
+    config.timeout,
+    token
+  )
+}
+
+/**
+ * Tell the running server that a file changed on disk
+ * Sent as a notification, so a server that doesn't answer can't leave it pending
+ */
+export function invalidateFileOnServer(filePath: string): void {
+  const server = servers.get(getWorkspaceFolder(filePath)?.uri.toString() ?? "")
+  server?.notify("invalidate-file", { path: filePath })
+}
+
+/**
+ * Stop every faex server
+ */
+export function disposeFaexServers(): void {
+  for (const server of servers.values()) {
+    server.dispose()
+  }
+  servers.clear()
+}
@@ -0,0 +1,143 @@
+import * as vscode from "vscode"
+import { log, logWarning } from "../utils/logger"
+import { isShadowFile } from "./cli"
+
+/**
+ * Extracts what it needs from the workspace's Python files
+ */
+export interface SourceParser {
+  /** Parse a file's source, or forget the file when text is undefined */
+  setSource(file: string, text: string | undefined): void
+  /** Forget every file, before a full scan */
+  clear(): void
+}
+
+/** Directories never scanned */
+const SKIPPED_DIRS = "**/{.venv,venv,.env,env,node_modules,site-packages,__pycache__,.git,.tox}/**"
+/** Maximum number of Python files scanned per workspace */
+const MAX_FILES = 20000
+/** Delay in milliseconds before file changes are applied */
+const UPDATE_DELAY = 500
+
+/**
+ * Reads the workspace's Python files once and keeps parsers up to date through a
+ * single file watcher, which other consumers can subscribe to as well
+ */
+export class PythonSourceIndex implements vscode.Disposable {
+  private parsers: SourceParser[] = []
+  private pendingFiles: Set<string> = new Set()
+  private updateTimer: NodeJS.Timeout | undefined
+  private scanTimer: NodeJS.Timeout | undefined
+  private disposables: vscode.Disposable[] = []
+  private _onDidChangeFile: vscode.EventEmitter<vscode.Uri> = new vscode.EventEmitter<vscode.Uri>()
+  /** Fired right away when a Python file is created, changed or deleted on disk */
+  public readonly onDidChangeFile: vscode.Event<vscode.Uri> = this._onDidChangeFile.event
+  private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>()
+  /** Fired when parsers have been updated after a scan or file changes */
+  public readonly onDidChange: vscode.Event<void> = this._onDidChange.event
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher("**/*.py")
+    const onFile = (uri: vscode.Uri) => {
+      // Shadow files of unsaved buffers come and go with each check
+      if (isShadowFile(uri.fsPath)) {
+        return
+      }
+      this._onDidChangeFile.fire(uri)
+      this.scheduleUpdate(uri)
+    }
+    this.disposables.push(
+      watcher,
+      watcher.onDidChange(onFile),
+      watcher.onDidCreate(onFile),
+      watcher.onDidDelete(onFile),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.scheduleScan())
+    )
+  }
+
+  /**
+   * Register a parser; the workspace is scanned again shortly after
+   */
+  addParser(parser: SourceParser): void {
+    this.parsers.push(parser)
+    this.scheduleScan()
+  }
+
+  private scheduleScan(): void {
+    clearTimeout(this.scanTimer)
+    this.scanTimer = setTimeout(() => this.scan(), 0)
+  }
+
+  /**
+   * Read every Python file of the workspace
+   */
+  private async scan(): Promise<void> {
+    const files = (await vscode.workspace.findFiles("**/*.py", SKIPPED_DIRS, MAX_FILES)).filter(
+      (uri) => !isShadowFile(uri.fsPath)
+    )
+    if (files.length === MAX_FILES) {
+      logWarning(`Only the first ${MAX_FILES} Python files are indexed`)
+    }
+
+    for (const parser of this.parsers) {
+      parser.clear()
+    }
+    for (const uri of files) {
+      const text = await readSource(uri)
+      for (const parser of this.parsers) {
+        parser.setSource(uri.fsPath, text)
+      }
+    }
+
+    log(`Indexed ${files.length} Python file(s)`)
+    this._onDidChange.fire()
+  }
+
+  private scheduleUpdate(uri: vscode.Uri): void {
+    if (/[\\/](\.venv|venv|node_modules|site-packages|__pycache__)[\\/]/.test(uri.fsPath)) {
+      return
+    }
+    this.pendingFiles.add(uri.fsPath)
+    clearTimeout(this.updateTimer)
+    this.updateTimer = setTimeout(() => this.update(), UPDATE_DELAY)
+  }
+
+  private async update(): Promise<void> {
+    const files = [...this.pendingFiles]
+    this.pendingFiles.clear()
+
+    for (const file of files) {
+      const text = await readSource(vscode.Uri.file(file))
+      for (const parser of this.parsers) {
+        parser.setSource(file, text)
+      }
+    }
+
+    this._onDidChange.fire()
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    clearTimeout(this.updateTimer)
+    clearTimeout(this.scanTimer)
+    this._onDidChangeFile.dispose()
+    this._onDidChange.dispose()
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+  }
+}
+
+/**
+ * Read a file as text; undefined when it can't be read, e.g. after it was deleted
+ */
+async function readSource(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    const bytes = await vscode.workspace.fs.readFile(uri)
+    return new TextDecoder("utf-8").decode(bytes)
+  } catch {
+    return undefined
+  }
+}
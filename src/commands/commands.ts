@@ -1,14 +1,36 @@
 import * as vscode from "vscode"
-import { DiagnosticsManager } from "../providers/diagnostics"
-import { getAnalyzer } from "../analyzer/analyzer"
-import { getUndeclaredExceptions, EndpointInfo } from "../types"
+import { DiagnosticsManager, FolderSummary, isUndeclaredDiagnostic } from "../providers/diagnostics"
+import { createAddExceptionEdit } from "../providers/codeAction"
+import { EndpointTreeProvider, EndpointNode, FileNode } from "../providers/endpointTree"
+import { EndpointDetailsPanel } from "../providers/endpointDetails"
+import { StatusBarManager } from "../providers/statusBar"
+import { getAnalyzer, isRunFailure } from "../analyzer/analyzer"
+import {
+  clearFaexCommandCache,
+  findFaexCandidates,
+  formatFaexCommand,
+  resolveFaexCommand,
+} from "../analyzer/executable"
+import {
+  getUndeclaredExceptions,
+  hasIssues,
+  formatRoute,
+  AnalysisError,
+  EndpointInfo,
+} from "../types"
+import { notifyAnalysisError, showErrorDetails } from "../utils/errorDetails"
+import { showLogs } from "../utils/logger"
+import { isMultiRoot, resolveConfig } from "../utils/config"
 
 /**
  * Register all faex commands
  */
 export function registerCommands(
   context: vscode.ExtensionContext,
-  diagnosticsManager: DiagnosticsManager
+  diagnosticsManager: DiagnosticsManager,
+  endpointTreeProvider: EndpointTreeProvider,
+  statusBarManager: StatusBarManager,
+  endpointDetailsPanel: EndpointDetailsPanel
 ): void {
   // Check current file
   context.subscriptions.push(
@@ -24,15 +46,15 @@ export function registerCommands(
         return
       }
 
-      diagnosticsManager.analyzeDocument(editor.document)
+      await diagnosticsManager.analyzeDocument(editor.document)
 
-      const diagnostics = diagnosticsManager.getDiagnostics(editor.document.uri)
-      if (diagnostics.length === 0) {
+      const undeclared = diagnosticsManager
+        .getDiagnostics(editor.document.uri)
+        .filter(isUndeclaredDiagnostic).length
+      if (undeclared === 0) {
         vscode.window.showInformationMessage("faex: No undeclared exceptions found")
       } else {
-        vscode.window.showWarningMessage(
-          `faex: Found ${diagnostics.length} undeclared exception(s)`
-        )
+        vscode.window.showWarningMessage(`faex: Found ${undeclared} undeclared exception(s)`)
       }
     })
   )
@@ -40,110 +62,404 @@ export function registerCommands(
   // Check workspace
   context.subscriptions.push(
     vscode.commands.registerCommand("faex.checkWorkspace", async () => {
+      const folders = await pickWorkspaceFolders()
+      if (!folders) {
+        return
+      }
+
       await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
           title: "faex: Checking workspace...",
-          cancellable: false,
+          cancellable: true,
         },
-        async () => {
+        async (_progress, token) => {
           const analyzer = getAnalyzer()
-          const result = await analyzer.analyzeWorkspace()
+          const result = await analyzer.analyzeWorkspace(folders, token)
+
+          if (token.isCancellationRequested) {
+            vscode.window.showInformationMessage("faex: Workspace check cancelled")
+            return
+          }
 
-          const issueCount = result.endpoints.reduce(
-            (sum, ep) => sum + getUndeclaredExceptions(ep).length,
-            0
+          // Keep previous results of folders whose run timed out or failed
+          const failures = result.errors.filter(isRunFailure)
+          const failed = new Set(failures.map((error) => error.file))
+          const completed = folders.filter((folder) => !failed.has(folder.uri.fsPath))
+          const timedOut = failures.filter((error) => error.code === "timeout")
+          if (timedOut.length > 0) {
+            vscode.window.showWarningMessage(
+              `faex: Workspace check timed out for ${timedOut.map((error) => error.file).join(", ")}. Increase 'faex.timeout' or lower 'faex.depth'.`
+            )
+          }
+          for (const error of failures.filter((error) => error.code === "failed")) {
+            notifyAnalysisError(error)
+          }
+
+          // Publish diagnostics for every checked file, open or not
+          await diagnosticsManager.applyWorkspaceResult(result, completed)
+          statusBarManager.setWorkspaceResult(completed)
+
+          // Count what was published, after hierarchy, route resolution and suppressions
+          const summaries = new Map(
+            completed.map((folder) => [folder.name, diagnosticsManager.getFolderSummary(folder)])
           )
+          const totals = [...summaries.values()]
+          const issueCount = totals.reduce((sum, summary) => sum + summary.undeclared, 0)
+          const endpointCount = totals.reduce((sum, summary) => sum + summary.endpoints, 0)
+
+          const breakdown = folders.length > 1 ? ` (${formatFolderBreakdown(summaries)})` : ""
 
           if (issueCount === 0) {
             vscode.window.showInformationMessage(
-              `faex: Checked ${result.endpoints.length} endpoints, no issues found`
+              `faex: Checked ${endpointCount} endpoints, no issues found${breakdown}`
             )
           } else {
             vscode.window.showWarningMessage(
-              `faex: Found ${issueCount} undeclared exception(s) in ${result.endpoints.length} endpoints`
+              `faex: Found ${issueCount} undeclared exception(s) in ${endpointCount} endpoints${breakdown}`
             )
           }
-
-          // Refresh diagnostics for all open files
-          await diagnosticsManager.refreshAll()
         }
       )
     })
   )
 
-  // Show all exceptions
+  // Show endpoints of the whole workspace
+  let onlyWithIssues = false
   context.subscriptions.push(
     vscode.commands.registerCommand("faex.showAllExceptions", async () => {
-      const editor = vscode.window.activeTextEditor
-      if (!editor || editor.document.languageId !== "python") {
-        vscode.window.showWarningMessage("Open a Python file first")
-        return
+      const quickPick = vscode.window.createQuickPick<EndpointQuickPickItem>()
+      quickPick.placeholder = "Select an endpoint to open"
+      quickPick.matchOnDescription = true
+      quickPick.matchOnDetail = true
+
+      const filterButton = (): vscode.QuickInputButton =>
+        onlyWithIssues
+          ? { iconPath: new vscode.ThemeIcon("filter-filled"), tooltip: "Show All Endpoints" }
+          : { iconPath: new vscode.ThemeIcon("filter"), tooltip: "Show Only Endpoints with Issues" }
+
+      const update = () => {
+        const endpoints = diagnosticsManager
+          .getAllEndpoints()
+          .filter((ep) => !onlyWithIssues || hasIssues(ep))
+        quickPick.title = onlyWithIssues ? "faex: Endpoints with Issues" : "faex: All Endpoints"
+        quickPick.buttons = [filterButton()]
+        quickPick.items = createEndpointItems(endpoints)
       }
 
-      const endpoints = diagnosticsManager.getEndpoints(editor.document.uri.fsPath)
+      let hidden = false
+      const disposables = [
+        quickPick,
+        diagnosticsManager.onDidUpdateEndpoints(() => update()),
+        quickPick.onDidTriggerButton(() => {
+          onlyWithIssues = !onlyWithIssues
+          update()
+        }),
+        quickPick.onDidAccept(async () => {
+          const selected = quickPick.selectedItems[0]
+          if (selected) {
+            quickPick.hide()
+            await openEndpoint(selected.endpoint)
+          }
+        }),
+        quickPick.onDidTriggerItemButton(async ({ item, button }) => {
+          quickPick.hide()
+          if (button === OPEN_BUTTON) {
+            await openEndpoint(item.endpoint)
+          } else if (button === FIX_BUTTON) {
+            await addMissingExceptions(item.endpoint)
+          } else if (button === DETAILS_BUTTON) {
+            await endpointDetailsPanel.show(item.endpoint)
+          }
+        }),
+        quickPick.onDidHide(() => {
+          hidden = true
+          for (const disposable of disposables) {
+            disposable.dispose()
+          }
+        }),
+      ]
 
-      if (endpoints.length === 0) {
-        vscode.window.showInformationMessage("No FastAPI endpoints found")
-        return
+      update()
+      quickPick.show()
+
+      // Endpoints of files that were never opened come from a workspace analysis
+      quickPick.busy = true
+      await diagnosticsManager.ensureWorkspaceAnalyzed()
+      if (!hidden) {
+        quickPick.busy = false
+        update()
       }
+    })
+  )
 
-      // Create quick pick items
-      const items: vscode.QuickPickItem[] = endpoints.map((ep) => {
-        const undeclared = getUndeclaredExceptions(ep)
-        const status = undeclared.length === 0 ? "✓" : "⚠"
-        const detail =
-          undeclared.length > 0
-            ? `Missing: ${undeclared.map((e) => e.exceptionClass).join(", ")}`
-            : `Declared: ${ep.declaredExceptions.join(", ") || "none"}`
+  // Show endpoint details (used by CodeLens)
+  context.subscriptions.push(
+    vscode.commands.registerCommand("faex.showEndpointDetails", (endpoint: EndpointInfo) =>
+      endpointDetailsPanel.show(endpoint)
+    )
+  )
 
-        return {
-          label: `${status} ${ep.method} ${ep.path}`,
-          description: ep.functionName,
-          detail,
-        }
+  // Refresh endpoint tree view
+  context.subscriptions.push(
+    vscode.commands.registerCommand("faex.refreshEndpoints", async () => {
+      await vscode.window.withProgress({ location: { viewId: "faex.endpoints" } }, async () => {
+        await endpointTreeProvider.refresh()
       })
+    })
+  )
+
+  // Re-check a file from the endpoint tree view
+  context.subscriptions.push(
+    vscode.commands.registerCommand("faex.recheckFile", async (node: FileNode) => {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(node.file))
+      await diagnosticsManager.analyzeDocument(document)
+    })
+  )
+
+  // Add missing exceptions from the endpoint tree view
+  context.subscriptions.push(
+    vscode.commands.registerCommand("faex.addMissingExceptions", (node: EndpointNode) =>
+      addMissingExceptions(node.endpoint)
+    )
+  )
+
+  // Status bar menu
+  context.subscriptions.push(
+    vscode.commands.registerCommand("faex.showStatusMenu", async () => {
+      const items: (vscode.QuickPickItem & { run: () => Thenable<unknown> | void })[] = [
+        {
+          label: "$(refresh) Re-check Current File",
+          run: () => vscode.commands.executeCommand("faex.checkCurrentFile"),
+        },
+        {
+          label: "$(search) Check Workspace",
+          run: () => vscode.commands.executeCommand("faex.checkWorkspace"),
+        },
+        {
+          label: "$(list-tree) Open Endpoint List",
+          run: () => vscode.commands.executeCommand("faex.endpoints.focus"),
+        },
+        {
+          label: "$(output) Show Logs",
+          run: () => showLogs(),
+        },
+      ]
+
+      const selected = await vscode.window.showQuickPick(items, { placeHolder: "faex" })
+      if (selected) {
+        await selected.run()
+      }
+    })
+  )
+
+  // Select faex executable per workspace folder
+  context.subscriptions.push(
+    vscode.commands.registerCommand("faex.selectExecutable", async () => {
+      const folder = isMultiRoot()
+        ? await vscode.window.showWorkspaceFolderPick({
+            placeHolder: "Select workspace folder to configure",
+          })
+        : vscode.workspace.workspaceFolders?.[0]
+      if (isMultiRoot() && !folder) {
+        return
+      }
+
+      const current = await resolveFaexCommand(folder)
+      const candidates = await findFaexCandidates(folder)
+
+      // value: null resets to auto-detection, undefined opens a file dialog
+      const items: (vscode.QuickPickItem & { value?: string | null })[] = [
+        {
+          label: "$(search) Auto-detect",
+          description: "Clear faex.faexPath and discover faex automatically",
+          value: null,
+        },
+        ...candidates
+          .filter((candidate) => candidate.args.length === 0)
+          .map((candidate) => ({
+            label: candidate.command,
+            description: candidate.source,
+            value: candidate.command,
+          })),
+        { label: "$(folder-opened) Browse...", value: undefined },
+      ]
 
       const selected = await vscode.window.showQuickPick(items, {
-        placeHolder: "Select an endpoint to view details",
-        matchOnDetail: true,
+        placeHolder: `Current: ${formatFaexCommand(current)}`,
       })
+      if (!selected) {
+        return
+      }
 
-      if (selected) {
-        // Find the endpoint and go to its line
-        const endpoint = endpoints.find(
-          (ep) => `${ep.method} ${ep.path}` === selected.label.substring(2)
-        )
-
-        if (endpoint) {
-          const position = new vscode.Position(endpoint.decoratorLine - 1, 0)
-          editor.selection = new vscode.Selection(position, position)
-          editor.revealRange(new vscode.Range(position, position))
+      let faexPath = selected.value
+      if (faexPath === undefined) {
+        const picked = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          defaultUri: folder?.uri,
+          openLabel: "Use as faex executable",
+        })
+        if (!picked) {
+          return
         }
+        faexPath = picked[0].fsPath
       }
+
+      const config = vscode.workspace.getConfiguration("faex", folder?.uri)
+      await config.update(
+        "faexPath",
+        faexPath ?? undefined,
+        folder ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Global
+      )
+
+      clearFaexCommandCache()
+      const resolved = await resolveFaexCommand(folder)
+      vscode.window.showInformationMessage(`faex: Using ${formatFaexCommand(resolved)}`)
     })
   )
 
-  // Show endpoint details (used by CodeLens)
+  // Show the faex log
+  context.subscriptions.push(vscode.commands.registerCommand("faex.showLogs", () => showLogs()))
+
+  // Open the raw faex output of an analysis error
   context.subscriptions.push(
-    vscode.commands.registerCommand("faex.showEndpointDetails", (endpoint: EndpointInfo) => {
-      const undeclared = getUndeclaredExceptions(endpoint)
+    vscode.commands.registerCommand("faex.showErrorDetails", (error: AnalysisError) =>
+      showErrorDetails(error)
+    )
+  )
 
-      if (undeclared.length === 0) {
-        vscode.window.showInformationMessage(
-          `${endpoint.method} ${endpoint.path}: All exceptions declared`
-        )
-      } else {
-        const message = undeclared
-          .map((e) =>
-            e.inFunction ? `${e.exceptionClass} (in ${e.inFunction})` : e.exceptionClass
-          )
-          .join(", ")
+  // Show effective configuration and where each value came from
+  context.subscriptions.push(
+    vscode.commands.registerCommand("faex.showEffectiveConfig", async () => {
+      const uri =
+        vscode.window.activeTextEditor?.document.uri ?? vscode.workspace.workspaceFolders?.[0]?.uri
+      const { config, sources, pyprojectFile } = resolveConfig(uri)
+
+      const lines = [
+        "# faex Effective Configuration",
+        "",
+        `Resource: ${uri ? vscode.workspace.asRelativePath(uri) : "(none)"}`,
+        `pyproject.toml: ${pyprojectFile ?? "(none)"}`,
+        "",
+        "Precedence: default < user settings < pyproject.toml < workspace settings < folder settings",
+        "",
+        "| Setting | Value | Source |",
+        "|---------|-------|--------|",
+        ...(Object.keys(config) as (keyof typeof config)[]).map(
+          (key) => `| \`faex.${key}\` | \`${JSON.stringify(config[key])}\` | ${sources[key]} |`
+        ),
+      ]
+
+      const document = await vscode.workspace.openTextDocument({
+        language: "markdown",
+        content: lines.join("\n") + "\n",
+      })
+      await vscode.window.showTextDocument(document, { preview: true })
+    })
+  )
+}
+
+/**
+ * Quick pick item that keeps the endpoint it stands for
+ */
+interface EndpointQuickPickItem extends vscode.QuickPickItem {
+  endpoint: EndpointInfo
+}
 
-        vscode.window.showWarningMessage(
-          `${endpoint.method} ${endpoint.path}: Missing exceptions: ${message}`
-        )
+const OPEN_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("go-to-file"),
+  tooltip: "Open",
+}
+const FIX_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("lightbulb"),
+  tooltip: "Add Missing Exceptions",
+}
+const DETAILS_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("info"),
+  tooltip: "Show Details",
+}
+
+/**
+ * Create quick pick items for endpoints, sorted by file and line
+ */
+function createEndpointItems(endpoints: EndpointInfo[]): EndpointQuickPickItem[] {
+  return [...endpoints]
+    .sort((a, b) => a.file.localeCompare(b.file) || a.decoratorLine - b.decoratorLine)
+    .map((endpoint) => {
+      const undeclared = getUndeclaredExceptions(endpoint)
+      const location = `${vscode.workspace.asRelativePath(endpoint.file)}:${endpoint.decoratorLine}`
+      return {
+        label: `${undeclared.length === 0 ? "$(check)" : "$(warning)"} ${formatRoute(endpoint)}`,
+        description: `${endpoint.functionName} · ${location}`,
+        detail:
+          undeclared.length > 0
+            ? `Missing: ${[...new Set(undeclared.map((e) => e.exceptionClass))].join(", ")}`
+            : `Declared: ${endpoint.declaredExceptions.join(", ") || "none"}`,
+        buttons:
+          undeclared.length > 0
+            ? [OPEN_BUTTON, FIX_BUTTON, DETAILS_BUTTON]
+            : [OPEN_BUTTON, DETAILS_BUTTON],
+        endpoint,
       }
     })
+}
+
+/**
+ * Open an endpoint's file, if it isn't open yet, and reveal its decorator
+ */
+async function openEndpoint(endpoint: EndpointInfo): Promise<void> {
+  const position = new vscode.Position(Math.max(0, endpoint.decoratorLine - 1), 0)
+  await vscode.window.showTextDocument(vscode.Uri.file(endpoint.file), {
+    selection: new vscode.Range(position, position),
+  })
+}
+
+/**
+ * Add every undeclared exception of an endpoint to its decorator
+ */
+async function addMissingExceptions(endpoint: EndpointInfo): Promise<void> {
+  const undeclared = getUndeclaredExceptions(endpoint)
+  if (undeclared.length === 0) {
+    return
+  }
+
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(endpoint.file))
+  const edit = createAddExceptionEdit(
+    document,
+    endpoint,
+    undeclared.map((e) => e.exceptionClass)
   )
+  await vscode.workspace.applyEdit(edit)
+}
+
+/**
+ * Ask which workspace folders to check when more than one is open
+ * Returns undefined when the user dismisses the picker
+ */
+async function pickWorkspaceFolders(): Promise<readonly vscode.WorkspaceFolder[] | undefined> {
+  const folders = vscode.workspace.workspaceFolders ?? []
+  if (folders.length <= 1) {
+    return folders
+  }
+
+  const items: (vscode.QuickPickItem & { folders: readonly vscode.WorkspaceFolder[] })[] = [
+    { label: "$(root-folder) All Folders", folders },
+    ...folders.map((folder) => ({
+      label: `$(folder) ${folder.name}`,
+      description: folder.uri.fsPath,
+      folders: [folder],
+    })),
+  ]
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select workspace folder to check",
+  })
+  return selected?.folders
+}
+
+/**
+ * Format undeclared exception counts per workspace folder
+ */
+function formatFolderBreakdown(summaries: Map<string, FolderSummary>): string {
+  return [...summaries].map(([folder, summary]) => `${folder}: ${summary.undeclared}`).join(", ")
 }
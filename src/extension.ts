@@ -3,31 +3,76 @@ import { getConfig, onConfigChange } from "./utils/config"
 import { DiagnosticsManager } from "./providers/diagnostics"
 import { CodeActionProvider } from "./providers/codeAction"
 import { CodeLensProvider } from "./providers/codeLens"
+import { EndpointTreeProvider } from "./providers/endpointTree"
+import { StatusBarManager } from "./providers/statusBar"
+import { HoverProvider } from "./providers/hover"
+import { EndpointDetailsPanel } from "./providers/endpointDetails"
+import { DocumentSymbolProvider, WorkspaceSymbolProvider } from "./providers/symbols"
 import { registerCommands } from "./commands/commands"
-import { isFaexAvailable } from "./analyzer/cli"
+import { checkFaexCompatibility, isFaexAvailable } from "./analyzer/cli"
+import { onDidClearFaexCommands, watchFaexCommand } from "./analyzer/executable"
+import { getAnalysisCache, initAnalysisCache } from "./analyzer/cache"
+import { PythonSourceIndex } from "./analyzer/sourceIndex"
+import { disposeFaexServers, invalidateFileOnServer } from "./analyzer/server"
+import { disposeLogger, log, logWarning } from "./utils/logger"
 
 let diagnosticsManager: DiagnosticsManager
 
+/** Delay in milliseconds after the last keystroke before validating */
+const VALIDATE_ON_TYPE_DELAY = 500
+
+/** Delay in milliseconds after the last module change before re-checking dependent endpoints */
+const DEPENDENCY_RECHECK_DELAY = 1000
+
 export async function activate(context: vscode.ExtensionContext) {
-  console.log("faex-vscode is now active")
+  log(`faex-vscode ${context.extension.packageJSON.version} is now active`)
 
   const config = getConfig()
 
   if (!config.enable) {
-    console.log("faex is disabled in settings")
+    log("faex is disabled in settings")
     return
   }
 
-  // Check if faex CLI is available
-  const faexAvailable = await isFaexAvailable()
+  // Re-resolve the faex executable when settings or the Python interpreter change
+  context.subscriptions.push(watchFaexCommand())
+
+  // Python sources of the workspace, watched once for every consumer
+  const sourceIndex = new PythonSourceIndex()
+  context.subscriptions.push(sourceIndex)
+
+  // Analysis results persisted across sessions
+  context.subscriptions.push(initAnalysisCache(context.storageUri, sourceIndex.onDidChangeFile))
+
+  // Check if faex CLI is available in every workspace folder
+  const folders = vscode.workspace.workspaceFolders ?? []
+  const missingIn: string[] = []
+  const versionProblems = new Set<string>()
+  for (const folder of folders) {
+    if (!(await isFaexAvailable(folder.uri))) {
+      missingIn.push(folder.name)
+      continue
+    }
+    const problem = await checkFaexCompatibility(folder.uri)
+    if (problem) {
+      versionProblems.add(folders.length > 1 ? `${folder.name}: ${problem}` : problem)
+    }
+  }
+  const faexAvailable = folders.length > 0 ? missingIn.length === 0 : await isFaexAvailable()
   if (!faexAvailable) {
+    logWarning(`faex CLI not found${missingIn.length > 0 ? ` in ${missingIn.join(", ")}` : ""}`)
+    const where = folders.length > 1 ? ` (${missingIn.join(", ")})` : ""
     vscode.window.showWarningMessage(
-      "faex CLI not found. Please install it with 'pip install faex' or configure 'faex.faexPath' in settings."
+      `faex CLI not found${where}. Please install it with 'pip install faex' or configure 'faex.faexPath' in settings.`
     )
   }
+  for (const problem of versionProblems) {
+    logWarning(problem)
+    vscode.window.showWarningMessage(problem)
+  }
 
   // Initialize diagnostics manager
-  diagnosticsManager = new DiagnosticsManager()
+  diagnosticsManager = new DiagnosticsManager(sourceIndex)
   context.subscriptions.push(diagnosticsManager)
 
   // Register code action provider (Quick Fix)
@@ -46,6 +91,7 @@ export async function activate(context: vscode.ExtensionContext) {
   if (config.showCodeLens) {
     const codeLensProvider = new CodeLensProvider(diagnosticsManager)
     context.subscriptions.push(
+      codeLensProvider,
       vscode.languages.registerCodeLensProvider(
         { language: "python", scheme: "file" },
         codeLensProvider
@@ -53,29 +99,100 @@ export async function activate(context: vscode.ExtensionContext) {
     )
   }
 
-  // Register commands
-  registerCommands(context, diagnosticsManager)
+  // Register hover provider
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider(
+      { language: "python", scheme: "file" },
+      new HoverProvider(diagnosticsManager)
+    )
+  )
 
-  // Validate on save
-  if (config.validateOnSave) {
-    context.subscriptions.push(
-      vscode.workspace.onDidSaveTextDocument(async (document) => {
-        if (document.languageId === "python") {
-          await diagnosticsManager.analyzeDocument(document)
-        }
-      })
+  // Register route symbols for the Outline view and "Go to Symbol in Workspace"
+  context.subscriptions.push(
+    vscode.languages.registerDocumentSymbolProvider(
+      { language: "python", scheme: "file" },
+      new DocumentSymbolProvider(diagnosticsManager),
+      { label: "faex" }
+    ),
+    vscode.languages.registerWorkspaceSymbolProvider(
+      new WorkspaceSymbolProvider(diagnosticsManager)
     )
-  }
+  )
+
+  // Register endpoint tree view
+  const endpointTreeProvider = new EndpointTreeProvider(diagnosticsManager)
+  context.subscriptions.push(
+    endpointTreeProvider,
+    vscode.window.createTreeView("faex.endpoints", {
+      treeDataProvider: endpointTreeProvider,
+      showCollapseAll: true,
+    })
+  )
+
+  // Register status bar item
+  const statusBarManager = new StatusBarManager(diagnosticsManager)
+  statusBarManager.setFaexAvailable(faexAvailable)
+  context.subscriptions.push(statusBarManager)
+
+  // Look for faex again once it may have been installed or configured differently
+  let availabilityCheck = 0
+  context.subscriptions.push(
+    onDidClearFaexCommands(async () => {
+      const check = ++availabilityCheck
+      const available = await isFaexAvailableEverywhere()
+      if (check === availabilityCheck) {
+        statusBarManager.setFaexAvailable(available)
+      }
+    })
+  )
+
+  // Endpoint details webview, opened from CodeLens
+  const endpointDetailsPanel = new EndpointDetailsPanel(diagnosticsManager)
+  context.subscriptions.push(endpointDetailsPanel)
+
+  // Register commands
+  registerCommands(
+    context,
+    diagnosticsManager,
+    endpointTreeProvider,
+    statusBarManager,
+    endpointDetailsPanel
+  )
+
+  // Validate on save; settings are read per document so changes apply without a reload
+  context.subscriptions.push(
+    vscode.workspace.onDidSaveTextDocument(async (document) => {
+      if (document.languageId === "python" && getConfig(document.uri).validateOnSave) {
+        diagnosticsManager.cancelScheduledAnalysis(document.uri)
+        invalidateFileOnServer(document.uri.fsPath)
+        await diagnosticsManager.analyzeDocument(document)
+      }
+    })
+  )
 
-  // Validate on type (debounced) - disabled for CLI mode as it requires saved files
-  // if (config.validateOnType) { ... }
+  // Validate on type (debounced); unsaved buffers are analyzed without saving
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeTextDocument((event) => {
+      if (
+        event.document.languageId === "python" &&
+        event.contentChanges.length > 0 &&
+        getConfig(event.document.uri).validateOnType
+      ) {
+        diagnosticsManager.scheduleAnalysis(event.document, VALIDATE_ON_TYPE_DELAY)
+      }
+    })
+  )
 
-  // Validate open documents on activation
-  for (const document of vscode.workspace.textDocuments) {
-    if (document.languageId === "python") {
+  // Show cached results of open documents, then re-validate them in the background
+  const openDocuments = vscode.workspace.textDocuments.filter((doc) => doc.languageId === "python")
+  for (const document of openDocuments) {
+    await diagnosticsManager.restoreCachedResult(document)
+  }
+  ;(async () => {
+    for (const document of openDocuments) {
       await diagnosticsManager.analyzeDocument(document)
     }
-  }
+  })()
 
   // Handle document open
   context.subscriptions.push(
@@ -86,19 +203,31 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   )
 
+  // Re-check endpoint files when a module their endpoints raise in changes
+  context.subscriptions.push(
+    sourceIndex.onDidChangeFile((uri) => {
+      invalidateFileOnServer(uri.fsPath)
+      diagnosticsManager.handleModuleChanged(uri, DEPENDENCY_RECHECK_DELAY)
+    })
+  )
+
   // Handle document close
   context.subscriptions.push(
     vscode.workspace.onDidCloseTextDocument((document) => {
-      diagnosticsManager.clearDiagnostics(document.uri)
+      diagnosticsManager.handleDocumentClosed(document.uri)
     })
   )
 
   // Listen for config changes
   context.subscriptions.push(
     onConfigChange(async (newConfig) => {
+      log("Configuration changed")
       if (!newConfig.enable) {
         diagnosticsManager.clearAllDiagnostics()
       } else {
+        diagnosticsManager.reapplySeverity()
+        await getAnalysisCache().evictStaleContexts()
+
         // Re-analyze all open documents
         for (const document of vscode.workspace.textDocuments) {
           if (document.languageId === "python") {
@@ -110,8 +239,27 @@ export async function activate(context: vscode.ExtensionContext) {
   )
 }
 
-export function deactivate() {
+export async function deactivate() {
   if (diagnosticsManager) {
     diagnosticsManager.dispose()
   }
+  disposeFaexServers()
+  await getAnalysisCache().flush()
+  disposeLogger()
+}
+
+/**
+ * Check that faex can be run in every workspace folder
+ */
+async function isFaexAvailableEverywhere(): Promise<boolean> {
+  const folders = vscode.workspace.workspaceFolders ?? []
+  if (folders.length === 0) {
+    return isFaexAvailable()
+  }
+  for (const folder of folders) {
+    if (!(await isFaexAvailable(folder.uri))) {
+      return false
+    }
+  }
+  return true
 }
@@ -1,7 +1,12 @@
 import * as vscode from "vscode"
 import { DiagnosticsManager } from "./diagnostics"
-import { DiagnosticWithMetadata } from "../analyzer/analyzer"
-import { EndpointInfo, getUndeclaredExceptions } from "../types"
+import { AnalysisErrorDiagnostic, DiagnosticWithMetadata } from "../analyzer/analyzer"
+import { EndpointInfo, ExceptionLocation, getUndeclaredExceptions, isCoveredBy } from "../types"
+import { findExceptionsListEntry, parseExceptionsList } from "../utils/exceptionsList"
+import { createEndpointSuppressionEdit, createLineSuppressionEdit } from "../utils/suppression"
+
+/** Base classes too broad to offer as a declaration */
+const GENERIC_BASES = new Set(["Exception", "BaseException"])
 
 /**
  * Provides Quick Fix code actions for faex diagnostics
@@ -19,12 +24,56 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
   ): vscode.CodeAction[] {
     const actions: vscode.CodeAction[] = []
 
+    // Offer the raw faex output of analysis errors
+    for (const diagnostic of context.diagnostics) {
+      const error = (diagnostic as AnalysisErrorDiagnostic).error
+      if (diagnostic.source === "faex" && diagnostic.code === "analysis-error" && error?.details) {
+        const action = new vscode.CodeAction("Show faex output", vscode.CodeActionKind.QuickFix)
+        action.command = {
+          title: "Show faex output",
+          command: "faex.showErrorDetails",
+          arguments: [error],
+        }
+        action.diagnostics = [diagnostic]
+        actions.push(action)
+      }
+    }
+
+    // Offer removal of unused and redundant declarations
+    for (const diagnostic of context.diagnostics) {
+      if (
+        diagnostic.source !== "faex" ||
+        (diagnostic.code !== "unused-exception" && diagnostic.code !== "redundant-exception")
+      ) {
+        continue
+      }
+      const metadata = (diagnostic as DiagnosticWithMetadata).metadata
+      if (metadata) {
+        const exceptionClass = metadata.exception.exceptionClass
+        const action = this.createRemoveExceptionAction(
+          document,
+          metadata.endpoint,
+          exceptionClass,
+          diagnostic.code === "redundant-exception"
+            ? `Remove redundant subclass '${exceptionClass}' from exceptions`
+            : `Remove unused '${exceptionClass}' from exceptions`,
+          diagnostic
+        )
+        if (action) {
+          actions.push(action)
+        }
+      }
+    }
+
     // Get faex diagnostics in the range
     const faexDiagnostics = context.diagnostics.filter(
-      (d) => d.source === "faex" && d.code === "undeclared-exception"
+      (d) =>
+        d.source === "faex" &&
+        (d.code === "undeclared-exception" || d.code === "transitive-exception")
     )
 
     if (faexDiagnostics.length === 0) {
+      actions.push(...this.createSuppressActions(document, context.diagnostics))
       return actions
     }
 
@@ -85,6 +134,58 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
         )
         actions.push(addAllAction)
       }
+
+      // Declaring a base class covers its subclasses
+      actions.push(...this.createDeclareBaseActions(document, endpoint, undeclared, diagnostics))
+    }
+
+    actions.push(...this.createSuppressActions(document, context.diagnostics))
+
+    return actions
+  }
+
+  /**
+   * Create actions that insert `# faex: ignore[...]` comments
+   */
+  private createSuppressActions(
+    document: vscode.TextDocument,
+    diagnostics: readonly vscode.Diagnostic[]
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = []
+    const seen = new Set<string>()
+
+    for (const diagnostic of diagnostics) {
+      const metadata = (diagnostic as DiagnosticWithMetadata).metadata
+      if (diagnostic.source !== "faex" || !metadata) {
+        continue
+      }
+
+      const { endpoint, exception } = metadata
+      const line = diagnostic.range.start.line
+
+      const lineKey = `line:${line}:${exception.exceptionClass}`
+      if (!seen.has(lineKey)) {
+        seen.add(lineKey)
+        const action = new vscode.CodeAction(
+          `Suppress '${exception.exceptionClass}' for this line`,
+          vscode.CodeActionKind.QuickFix
+        )
+        action.edit = createLineSuppressionEdit(document, line, exception.exceptionClass)
+        action.diagnostics = [diagnostic]
+        actions.push(action)
+      }
+
+      const endpointKey = `endpoint:${endpoint.functionName}:${endpoint.line}:${exception.exceptionClass}`
+      if (!seen.has(endpointKey)) {
+        seen.add(endpointKey)
+        const action = new vscode.CodeAction(
+          `Suppress '${exception.exceptionClass}' for this endpoint`,
+          vscode.CodeActionKind.QuickFix
+        )
+        action.edit = createEndpointSuppressionEdit(document, endpoint, exception.exceptionClass)
+        action.diagnostics = [diagnostic]
+        actions.push(action)
+      }
     }
 
     return actions
@@ -104,7 +205,7 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
       vscode.CodeActionKind.QuickFix
     )
 
-    action.edit = this.createAddExceptionEdit(document, endpoint, [exceptionClass])
+    action.edit = createAddExceptionEdit(document, endpoint, [exceptionClass])
 
     action.diagnostics = diagnostics
     action.isPreferred = diagnostics.length === 1
@@ -126,7 +227,7 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
       vscode.CodeActionKind.QuickFix
     )
 
-    action.edit = this.createAddExceptionEdit(document, endpoint, exceptionClasses)
+    action.edit = createAddExceptionEdit(document, endpoint, exceptionClasses)
 
     action.diagnostics = diagnostics
     action.isPreferred = true
@@ -135,112 +236,193 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
   }
 
   /**
-   * Create workspace edit to add exceptions to decorator
+   * Create actions that declare a base class of undeclared exceptions instead of the
+   * exceptions themselves, one per base class
    */
-  private createAddExceptionEdit(
+  private createDeclareBaseActions(
     document: vscode.TextDocument,
     endpoint: EndpointInfo,
-    newExceptions: string[]
-  ): vscode.WorkspaceEdit {
-    const edit = new vscode.WorkspaceEdit()
-
-    // Find the decorator line
-    const decoratorLine = endpoint.decoratorLine - 1 // 0-indexed
-
-    // Build the new exceptions list
-    const allExceptions = [
-      ...endpoint.declaredExceptions,
-      ...newExceptions.filter((e) => !endpoint.declaredExceptions.includes(e)),
-    ]
-
-    if (endpoint.exceptionsLine !== undefined) {
-      // Update existing exceptions parameter
-      const excLine = endpoint.exceptionsLine - 1
-      const lineText = document.lineAt(excLine).text
-
-      // Find the exceptions=[...] part
-      const match = lineText.match(/exceptions\s*=\s*\[([^\]]*)\]/)
-      if (match) {
-        const startCol = lineText.indexOf("exceptions")
-        const endCol = startCol + match[0].length
-
-        const newText = `exceptions=[${allExceptions.join(", ")}]`
-
-        edit.replace(
-          document.uri,
-          new vscode.Range(
-            new vscode.Position(excLine, startCol),
-            new vscode.Position(excLine, endCol)
-          ),
-          newText
-        )
-      }
-    } else {
-      // Need to add exceptions parameter
-      // Find where to insert (before the closing parenthesis of the decorator)
-      const decoratorEndLine = this.findDecoratorEndLine(document, decoratorLine)
-      const endLineText = document.lineAt(decoratorEndLine).text
-      const closingParenIndex = endLineText.lastIndexOf(")")
-
-      if (closingParenIndex >= 0) {
-        // Check if we need a comma
-        const beforeParen = endLineText.substring(0, closingParenIndex).trim()
-        const needsComma = beforeParen.length > 0 && !beforeParen.endsWith(",")
-
-        const insertText = `${needsComma ? "," : ""}\n    exceptions=[${allExceptions.join(", ")}]`
-
-        edit.insert(
-          document.uri,
-          new vscode.Position(decoratorEndLine, closingParenIndex),
-          insertText
-        )
+    undeclared: ExceptionLocation[],
+    diagnostics: vscode.Diagnostic[]
+  ): vscode.CodeAction[] {
+    const classes = [...new Set(undeclared.map((exc) => exc.exceptionClass))]
+    const bases = new Set(
+      classes.flatMap(
+        (exceptionClass) =>
+          endpoint.exceptionAncestors?.[exceptionClass.split(".").pop() as string] ?? []
+      )
+    )
+
+    const actions: vscode.CodeAction[] = []
+    for (const base of bases) {
+      if (GENERIC_BASES.has(base)) {
+        continue
       }
+      const covered = classes.filter((exceptionClass) =>
+        isCoveredBy(endpoint, exceptionClass, base)
+      )
+
+      const action = new vscode.CodeAction(
+        `Declare base class '${base}' instead of ${covered.map((name) => `'${name}'`).join(", ")}`,
+        vscode.CodeActionKind.QuickFix
+      )
+      action.edit = createAddExceptionEdit(document, endpoint, [base])
+      action.diagnostics = diagnostics.filter((d) =>
+        covered.includes((d as DiagnosticWithMetadata).metadata?.exception.exceptionClass as string)
+      )
+      actions.push(action)
     }
 
-    return edit
+    return actions
   }
 
   /**
-   * Find the line where the decorator ends
+   * Create action to remove an unused or redundant exception declaration
    */
-  private findDecoratorEndLine(document: vscode.TextDocument, startLine: number): number {
-    let parenCount = 0
-    let inString = false
-    let stringChar = ""
-
-    for (let line = startLine; line < document.lineCount; line++) {
-      const text = document.lineAt(line).text
-
-      for (let i = 0; i < text.length; i++) {
-        const char = text[i]
-        const prevChar = i > 0 ? text[i - 1] : ""
-
-        // Handle strings
-        if ((char === '"' || char === "'") && prevChar !== "\\") {
-          if (!inString) {
-            inString = true
-            stringChar = char
-          } else if (char === stringChar) {
-            inString = false
-          }
-          continue
-        }
+  private createRemoveExceptionAction(
+    document: vscode.TextDocument,
+    endpoint: EndpointInfo,
+    exceptionClass: string,
+    title: string,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction | undefined {
+    const list = parseExceptionsList(document, endpoint)
+    const entry = list && findExceptionsListEntry(list, exceptionClass)
+    if (!entry) {
+      return undefined
+    }
+
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix)
+
+    action.edit = new vscode.WorkspaceEdit()
+    action.edit.delete(document.uri, entry.removeRange)
+
+    action.diagnostics = [diagnostic]
+    action.isPreferred = true
+
+    return action
+  }
+}
 
-        if (inString) {
-          continue
+/**
+ * Create workspace edit to add exceptions to decorator
+ */
+export function createAddExceptionEdit(
+  document: vscode.TextDocument,
+  endpoint: EndpointInfo,
+  newExceptions: string[]
+): vscode.WorkspaceEdit {
+  const edit = new vscode.WorkspaceEdit()
+
+  // Find the decorator line
+  const decoratorLine = endpoint.decoratorLine - 1 // 0-indexed
+
+  // Build the new exceptions list
+  const allExceptions = [
+    ...endpoint.declaredExceptions,
+    ...newExceptions.filter((e) => !endpoint.declaredExceptions.includes(e)),
+  ]
+
+  // Endpoints from workspace analysis don't carry the exceptions line yet
+  const exceptionsLine = endpoint.exceptionsLine ?? parseExceptionsList(document, endpoint)?.line
+
+  if (exceptionsLine !== undefined) {
+    // Update existing exceptions parameter
+    const excLine = exceptionsLine - 1
+    const lineText = document.lineAt(excLine).text
+
+    // Find the exceptions=[...] part
+    const match = lineText.match(/exceptions\s*=\s*\[([^\]]*)\]/)
+    if (match) {
+      const startCol = lineText.indexOf("exceptions")
+      const endCol = startCol + match[0].length
+
+      const newText = `exceptions=[${allExceptions.join(", ")}]`
+
+      edit.replace(
+        document.uri,
+        new vscode.Range(
+          new vscode.Position(excLine, startCol),
+          new vscode.Position(excLine, endCol)
+        ),
+        newText
+      )
+    } else {
+      // Multi-line list: append after the last entry
+      const list = parseExceptionsList(document, endpoint)
+      const added = allExceptions.filter((e) => !endpoint.declaredExceptions.includes(e))
+      const last = list?.entries[list.entries.length - 1]
+      if (list && last) {
+        edit.insert(document.uri, last.range.end, `, ${added.join(", ")}`)
+      } else if (list) {
+        edit.insert(document.uri, list.innerRange.start, added.join(", "))
+      }
+    }
+  } else {
+    // Need to add exceptions parameter
+    // Find where to insert (before the closing parenthesis of the decorator)
+    const decoratorEndLine = findDecoratorEndLine(document, decoratorLine)
+    const endLineText = document.lineAt(decoratorEndLine).text
+    const closingParenIndex = endLineText.lastIndexOf(")")
+
+    if (closingParenIndex >= 0) {
+      // Check if we need a comma
+      const beforeParen = endLineText.substring(0, closingParenIndex).trim()
+      const needsComma = beforeParen.length > 0 && !beforeParen.endsWith(",")
+
+      const insertText = `${needsComma ? "," : ""}\n    exceptions=[${allExceptions.join(", ")}]`
+
+      edit.insert(
+        document.uri,
+        new vscode.Position(decoratorEndLine, closingParenIndex),
+        insertText
+      )
+    }
+  }
+
+  return edit
+}
+
+/**
+ * Find the line where the decorator ends
+ */
+function findDecoratorEndLine(document: vscode.TextDocument, startLine: number): number {
+  let parenCount = 0
+  let inString = false
+  let stringChar = ""
+
+  for (let line = startLine; line < document.lineCount; line++) {
+    const text = document.lineAt(line).text
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      const prevChar = i > 0 ? text[i - 1] : ""
+
+      // Handle strings
+      if ((char === '"' || char === "'") && prevChar !== "\\") {
+        if (!inString) {
+          inString = true
+          stringChar = char
+        } else if (char === stringChar) {
+          inString = false
         }
+        continue
+      }
 
-        if (char === "(") {
-          parenCount++
-        } else if (char === ")") {
-          parenCount--
-          if (parenCount === 0) {
-            return line
-          }
+      if (inString) {
+        continue
+      }
+
+      if (char === "(") {
+        parenCount++
+      } else if (char === ")") {
+        parenCount--
+        if (parenCount === 0) {
+          return line
         }
       }
     }
-
-    return startLine
   }
+
+  return startLine
 }
@@ -6,22 +6,28 @@ import { getConfig } from "../utils/config"
 /**
  * Provides CodeLens for FastAPI endpoints showing exception info
  */
-export class CodeLensProvider implements vscode.CodeLensProvider {
+export class CodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
   private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>()
   public readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event
+  private disposables: vscode.Disposable[] = []
 
   constructor(private diagnosticsManager: DiagnosticsManager) {
     // Refresh CodeLens when diagnostics change
-    vscode.workspace.onDidChangeTextDocument(() => {
-      this._onDidChangeCodeLenses.fire()
-    })
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(() => {
+        this._onDidChangeCodeLenses.fire()
+      }),
+      diagnosticsManager.onDidUpdateEndpoints(() => {
+        this._onDidChangeCodeLenses.fire()
+      })
+    )
   }
 
   provideCodeLenses(
     document: vscode.TextDocument,
     _token: vscode.CancellationToken
   ): vscode.CodeLens[] {
-    const config = getConfig()
+    const config = getConfig(document.uri)
 
     if (!config.enable || !config.showCodeLens) {
       return []
@@ -117,4 +123,14 @@ export class CodeLensProvider implements vscode.CodeLensProvider {
   refresh(): void {
     this._onDidChangeCodeLenses.fire()
   }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this._onDidChangeCodeLenses.dispose()
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+  }
 }
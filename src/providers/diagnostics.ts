@@ -1,31 +1,162 @@
 import * as vscode from "vscode"
-import { getAnalyzer, createDiagnostic } from "../analyzer/analyzer"
-import { EndpointInfo, getUndeclaredExceptions } from "../types"
-import { getConfig, shouldExcludeFile } from "../utils/config"
+import * as path from "path"
+import {
+  getAnalyzer,
+  createDiagnostic,
+  createAnalysisErrorDiagnostic,
+  createPropagationDiagnostic,
+  createRedundantDiagnostic,
+  createRouteConflictDiagnostic,
+  createUnusedDiagnostic,
+  createUnusedSuppressionDiagnostic,
+  locateInDocument,
+  isRunFailure,
+  DiagnosticWithMetadata,
+} from "../analyzer/analyzer"
+import {
+  AnalysisError,
+  AnalysisResult,
+  EndpointInfo,
+  ExceptionLocation,
+  getRedundantDeclarations,
+  getUndeclaredExceptions,
+  getUnusedDeclarations,
+} from "../types"
+import {
+  getConfig,
+  getDiagnosticSeverity,
+  getWorkspaceFolder,
+  shouldExcludeFile,
+} from "../utils/config"
+import { findExceptionsListEntry, parseExceptionsList } from "../utils/exceptionsList"
+import { getAnalysisCache } from "../analyzer/cache"
+import { DependencyIndex, ImportGraph } from "../analyzer/dependencyIndex"
+import { ClassHierarchy } from "../analyzer/classHierarchy"
+import { RouteIndex } from "../analyzer/routes"
+import { PythonSourceIndex } from "../analyzer/sourceIndex"
+import { findRouteConflicts } from "../analyzer/routeConflicts"
+import { notifyAnalysisError } from "../utils/errorDetails"
+import { log, logError } from "../utils/logger"
+import { SourceDocument, loadSourceDocument } from "../utils/sourceDocument"
+import {
+  Suppression,
+  SuppressionIndex,
+  findRaiseSiteSuppression,
+  findSuppression,
+  parseSuppressions,
+} from "../utils/suppression"
+
+/**
+ * Totals of the endpoints published for a workspace folder
+ */
+export interface FolderSummary {
+  endpoints: number
+  endpointsWithIssues: number
+  undeclared: number
+}
+
+/**
+ * Fired when the endpoints of a file have been re-analyzed
+ */
+export interface EndpointsChangeEvent {
+  filePath: string
+  endpoints: EndpointInfo[]
+}
 
 /**
  * Manages diagnostics for faex
  */
 export class DiagnosticsManager implements vscode.Disposable {
   private diagnosticCollection: vscode.DiagnosticCollection
-  private endpointCache: Map<string, EndpointInfo[]> = new Map()
-  private analysisInProgress: Set<string> = new Set()
+  /** Diagnostics in helper modules listing the endpoints their exceptions reach */
+  private propagationCollection: vscode.DiagnosticCollection
+  /** Diagnostics on endpoints whose routes are duplicated or shadowed */
+  private routeCollection: vscode.DiagnosticCollection
+  /** Diagnostics per URI before `faex.severity` is applied, including those turned off */
+  private findings: Map<string, vscode.Diagnostic[]> = new Map()
+  private propagationFindings: Map<string, vscode.Diagnostic[]> = new Map()
+  private routeFindings: Map<string, vscode.Diagnostic[]> = new Map()
+  /** Endpoints currently published per file; results are cached by the analyzer */
+  private publishedEndpoints: Map<string, EndpointInfo[]> = new Map()
+  /** Errors faex reported per published file, kept to re-publish without a new run */
+  private publishedErrors: Map<string, AnalysisError[]> = new Map()
+  /** Cancellation of the running analysis per file */
+  private analysisInProgress: Map<string, vscode.CancellationTokenSource> = new Map()
+  /** Files that changed while their analysis was running */
+  private analysisPending: Set<string> = new Set()
+  /** Running analysis per file, including the re-run it will start */
+  private analysisRuns: Map<string, Promise<void>> = new Map()
+  private debounceTimers: Map<string, NodeJS.Timeout> = new Map()
+  /** Files whose diagnostics came from the last workspace check */
+  private workspaceFiles: Set<string> = new Set()
+  /** Last run failure notified per file, so repeated failures don't notify again */
+  private notifiedFailures: Map<string, string> = new Map()
+  /** Set once the user was told that faex output can't show unused declarations */
+  private notifiedIncompleteDetection = false
+  private _onDidUpdateEndpoints: vscode.EventEmitter<EndpointsChangeEvent> =
+    new vscode.EventEmitter<EndpointsChangeEvent>()
+  public readonly onDidUpdateEndpoints: vscode.Event<EndpointsChangeEvent> =
+    this._onDidUpdateEndpoints.event
 
-  constructor() {
+  /** Endpoint files per module their endpoints raise in or import */
+  private dependencyIndex: DependencyIndex = new DependencyIndex()
+  /** Imports between workspace files, for the dependency index */
+  private importGraph: ImportGraph = new ImportGraph(getFolderPath)
+  /** Suppression comments of workspace files, for raise sites in other modules */
+  private suppressionIndex: SuppressionIndex = new SuppressionIndex()
+  /** Modules changed on disk whose dependent endpoint files are waiting to be re-checked */
+  private changedModules: Set<string> = new Set()
+  private dependencyTimer: NodeJS.Timeout | undefined
+  /** Analysis of every workspace folder, run once when endpoints of unopened files are needed */
+  private workspaceAnalysis: Promise<AnalysisError[]> | undefined
+  /** Batches of publishes in progress; cross-file diagnostics are rebuilt once each ends */
+  private publishBatches = 0
+  /** Routers and their mounts, for the full paths of endpoints */
+  private routeIndex: RouteIndex = new RouteIndex(getFolderPath)
+  /** Class definitions, for the base classes of exceptions */
+  private classHierarchy: ClassHierarchy = new ClassHierarchy(getFolderPath)
+  private sourceSubscription: vscode.Disposable
+
+  /**
+   * @param sourceIndex Python sources of the workspace, read by the route, class, import and
+   *   suppression indexes
+   */
+  constructor(sourceIndex: PythonSourceIndex) {
     this.diagnosticCollection = vscode.languages.createDiagnosticCollection("faex")
+    this.propagationCollection = vscode.languages.createDiagnosticCollection("faex-propagation")
+    this.routeCollection = vscode.languages.createDiagnosticCollection("faex-routes")
+    sourceIndex.addParser(this.routeIndex)
+    sourceIndex.addParser(this.classHierarchy)
+    sourceIndex.addParser(this.importGraph)
+    sourceIndex.addParser(this.suppressionIndex)
+    this.sourceSubscription = sourceIndex.onDidChange(() => {
+      this.refreshDependencies()
+      this.refreshRoutes()
+      this.refreshHierarchy().catch((error) => {
+        const message = error instanceof Error ? error.message : "Unknown error"
+        logError(`Failed to re-publish files after class definitions changed: ${message}`)
+      })
+    })
   }
 
   /**
    * Analyze a document and update diagnostics
    */
   async analyzeDocument(document: vscode.TextDocument): Promise<void> {
-    const config = getConfig()
-
-    if (!config.enable) {
+    if (document.languageId !== "python") {
       return
     }
 
-    if (document.languageId !== "python") {
+    await this.analyzeSource(document)
+  }
+
+  /**
+   * Analyze an open document or a file read from disk and update diagnostics
+   */
+  private async analyzeSource(document: SourceDocument): Promise<void> {
+    const config = getConfig(document.uri)
+
+    if (!config.enable) {
       return
     }
 
@@ -34,43 +165,672 @@ export class DiagnosticsManager implements vscode.Disposable {
       return
     }
 
-    // Prevent concurrent analysis of the same file
-    if (this.analysisInProgress.has(document.uri.fsPath)) {
-      return
+    // Show a cached result right away; faex re-checks the file below
+    await this.restoreCachedResult(document)
+
+    // Prevent concurrent analysis of the same file: kill the stale run and
+    // re-run once it has stopped
+    const running = this.analysisInProgress.get(document.uri.fsPath)
+    if (running) {
+      this.analysisPending.add(document.uri.fsPath)
+      running.cancel()
+      // Resolve once the re-run has published, so callers can read its results
+      return this.analysisRuns.get(document.uri.fsPath)
     }
 
-    this.analysisInProgress.add(document.uri.fsPath)
+    const tokenSource = new vscode.CancellationTokenSource()
+    this.analysisInProgress.set(document.uri.fsPath, tokenSource)
+    const run = this.runAnalysis(document, tokenSource)
+    this.analysisRuns.set(document.uri.fsPath, run)
+    try {
+      await run
+    } finally {
+      if (this.analysisRuns.get(document.uri.fsPath) === run) {
+        this.analysisRuns.delete(document.uri.fsPath)
+      }
+    }
+  }
 
+  /**
+   * Run faex on a document and publish the result, then re-run if a newer edit came in
+   */
+  private async runAnalysis(
+    document: SourceDocument,
+    tokenSource: vscode.CancellationTokenSource
+  ): Promise<void> {
     try {
       const analyzer = getAnalyzer()
-      const result = await analyzer.analyzeDocument(document)
+      const result = await analyzer.analyzeDocument(document, tokenSource.token)
+
+      // Discard results superseded by a newer edit
+      if (
+        tokenSource.token.isCancellationRequested ||
+        this.analysisPending.has(document.uri.fsPath)
+      ) {
+        return
+      }
+
+      const failure = result.errors.find(isRunFailure)
+      if (failure) {
+        this.setDiagnostics(document.uri, [createAnalysisErrorDiagnostic(failure, document)])
+        this.notifyFailure(failure)
+        return
+      }
+
+      this.notifiedFailures.delete(document.uri.fsPath)
+      this.publish(
+        document,
+        result.endpoints,
+        result.errors.filter((error) => isSameFile(error.file, document.uri.fsPath))
+      )
+    } finally {
+      tokenSource.dispose()
+      this.analysisInProgress.delete(document.uri.fsPath)
+      if (this.analysisPending.delete(document.uri.fsPath)) {
+        await this.analyzeSource(document)
+      }
+    }
+  }
+
+  /**
+   * Publish the cached result of a document's current content, unless results are
+   * already shown for it
+   */
+  async restoreCachedResult(document: SourceDocument): Promise<void> {
+    if (this.publishedEndpoints.has(document.uri.fsPath) || !getConfig(document.uri).enable) {
+      return
+    }
+
+    const cached = await getAnalyzer().getCachedResult(document)
+    if (cached && !this.publishedEndpoints.has(document.uri.fsPath)) {
+      this.publish(document, cached.endpoints, cached.errors)
+    }
+  }
+
+  /**
+   * Analyze a document after it has stopped changing for the given delay
+   */
+  scheduleAnalysis(document: vscode.TextDocument, delay: number): void {
+    const key = document.uri.fsPath
+    clearTimeout(this.debounceTimers.get(key))
+
+    this.debounceTimers.set(
+      key,
+      setTimeout(() => {
+        this.debounceTimers.delete(key)
+        this.analyzeDocument(document)
+      }, delay)
+    )
+  }
+
+  /**
+   * Re-check endpoint files whose endpoints raise exceptions in a changed module
+   * Changes are batched for the given delay and re-checked in the background
+   */
+  handleModuleChanged(uri: vscode.Uri, delay: number): void {
+    this.changedModules.add(uri.fsPath)
+    clearTimeout(this.dependencyTimer)
+    this.dependencyTimer = setTimeout(() => {
+      this.dependencyTimer = undefined
+      this.recheckDependents()
+    }, delay)
+  }
+
+  private async recheckDependents(): Promise<void> {
+    const changed = [...this.changedModules]
+    this.changedModules.clear()
+
+    const dependents = new Set(
+      changed.flatMap((module) => this.dependencyIndex.getDependents(module))
+    )
+    if (dependents.size === 0) {
+      return
+    }
+
+    log(
+      `Re-checking ${dependents.size} endpoint file(s) affected by changes to ${changed
+        .map((module) => vscode.workspace.asRelativePath(module))
+        .join(", ")}`
+    )
+
+    for (const filePath of dependents) {
+      const uri = vscode.Uri.file(filePath)
+      // Cached results are keyed by the endpoint file only and are stale now
+      getAnalysisCache().delete(filePath)
+
+      try {
+        await this.analyzeSource(await loadSourceDocument(uri))
+      } catch {
+        // File was removed since it was analyzed
+        this.clearDiagnostics(uri)
+      }
+    }
+  }
+
+  /**
+   * Cancel a scheduled analysis of a document
+   */
+  cancelScheduledAnalysis(uri: vscode.Uri): void {
+    clearTimeout(this.debounceTimers.get(uri.fsPath))
+    this.debounceTimers.delete(uri.fsPath)
+  }
+
+  /**
+   * Publish diagnostics from a workspace check for every file it covered,
+   * including files that aren't open
+   */
+  async applyWorkspaceResult(
+    result: AnalysisResult,
+    folders: readonly vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders ?? []
+  ): Promise<void> {
+    const byFile = new Map<string, EndpointInfo[]>()
+    for (const endpoint of result.endpoints) {
+      const list = byFile.get(endpoint.file) || []
+      list.push(endpoint)
+      byFile.set(endpoint.file, list)
+    }
+
+    // Errors faex reported for a file; errors of a whole run are notified by the caller
+    const errorsByFile = new Map<string, AnalysisError[]>()
+    for (const error of result.errors) {
+      if (
+        isRunFailure(error) ||
+        folders.some((folder) => isSameFile(folder.uri.fsPath, error.file))
+      ) {
+        continue
+      }
+      const list = errorsByFile.get(error.file) || []
+      list.push(error)
+      errorsByFile.set(error.file, list)
+      if (!byFile.has(error.file)) {
+        byFile.set(error.file, [])
+      }
+    }
+
+    // A check of every folder makes the lazy workspace analysis unnecessary
+    if (!this.workspaceAnalysis && folders.length === vscode.workspace.workspaceFolders?.length) {
+      this.workspaceAnalysis = Promise.resolve([])
+    }
+
+    // Cross-file diagnostics cover every endpoint; rebuild them once for the whole check
+    this.publishBatches++
+    try {
+      await this.publishWorkspaceFiles(byFile, errorsByFile, folders)
+    } finally {
+      this.publishBatches--
+      this.updateWorkspaceDiagnostics()
+    }
+  }
+
+  /**
+   * Publish the results of a workspace check file by file
+   */
+  private async publishWorkspaceFiles(
+    byFile: Map<string, EndpointInfo[]>,
+    errorsByFile: Map<string, AnalysisError[]>,
+    folders: readonly vscode.WorkspaceFolder[]
+  ): Promise<void> {
+    // Drop results of files in the checked folders that no longer have endpoints
+    const checked = new Set(folders.map((folder) => folder.uri.toString()))
+    for (const filePath of [...this.workspaceFiles]) {
+      const folder = getWorkspaceFolder(filePath)
+      if (!byFile.has(filePath) && (!folder || checked.has(folder.uri.toString()))) {
+        this.workspaceFiles.delete(filePath)
+        this.clearDiagnostics(vscode.Uri.file(filePath))
+      }
+    }
+
+    for (const [filePath, endpoints] of byFile) {
+      const uri = vscode.Uri.file(filePath)
+
+      // Unsaved buffers differ from what faex read on disk; keep their own results
+      const open = vscode.workspace.textDocuments.find(
+        (doc) => doc.uri.toString() === uri.toString()
+      )
+      if (open?.isDirty || shouldExcludeFile(filePath, getConfig(uri))) {
+        continue
+      }
+
+      try {
+        const document = await loadSourceDocument(uri)
+        this.publish(
+          document,
+          endpoints.map((endpoint) => locateInDocument(endpoint, document)),
+          errorsByFile.get(filePath)
+        )
+        this.workspaceFiles.add(filePath)
+      } catch {
+        // File was removed since the check ran
+        this.clearDiagnostics(uri)
+      }
+    }
+  }
+
+  /**
+   * Analyze every workspace folder once, so endpoints of files that were never opened are known
+   * Results stay current through per-file re-analysis afterwards
+   */
+  async ensureWorkspaceAnalyzed(): Promise<void> {
+    if (!this.workspaceAnalysis) {
+      this.workspaceAnalysis = this.analyzeWorkspace()
+    }
+    await this.workspaceAnalysis
+  }
+
+  /**
+   * Analyze every workspace folder again, even if it was analyzed before
+   * Resolves with the errors of folders whose run failed; their previous results are kept
+   */
+  reanalyzeWorkspace(): Promise<AnalysisError[]> {
+    const analysis = this.analyzeWorkspace()
+    this.workspaceAnalysis = analysis
+    return analysis
+  }
+
+  private async analyzeWorkspace(): Promise<AnalysisError[]> {
+    const result = await getAnalyzer().analyzeWorkspace()
+    const failures = result.errors.filter(isRunFailure)
+    const completed = (vscode.workspace.workspaceFolders ?? []).filter(
+      (folder) => !failures.some((error) => error.file === folder.uri.fsPath)
+    )
+    await this.applyWorkspaceResult(result, completed)
+
+    // Try again next time if a folder couldn't be analyzed
+    if (failures.length > 0) {
+      this.workspaceAnalysis = undefined
+    }
+    return failures
+  }
+
+  /**
+   * Cache endpoints and set diagnostics for a file
+   */
+  private publish(
+    document: SourceDocument,
+    endpoints: EndpointInfo[],
+    errors: AnalysisError[] = []
+  ): void {
+    endpoints = endpoints.map((endpoint) =>
+      this.classHierarchy.resolve(this.routeIndex.resolveEndpoint(endpoint, document))
+    )
 
-      // Cache endpoints for other providers
-      this.endpointCache.set(document.uri.fsPath, result.endpoints)
+    // Cache endpoints for other providers
+    this.publishedEndpoints.set(document.uri.fsPath, endpoints)
+    this.publishedErrors.set(document.uri.fsPath, errors)
+    this.dependencyIndex.update(
+      document.uri.fsPath,
+      endpoints,
+      this.importGraph.getImportedFiles(document.uri.fsPath)
+    )
 
-      // Create diagnostics
-      const diagnostics: vscode.Diagnostic[] = []
+    // Create diagnostics, skipping findings silenced by `# faex: ignore` comments
+    const diagnostics: vscode.Diagnostic[] = []
+    const suppressions = parseSuppressions(document)
+    const usedSuppressions = new Set<Suppression>()
 
-      for (const endpoint of result.endpoints) {
-        const undeclared = getUndeclaredExceptions(endpoint)
+    this.notifyIncompleteDetection(document.uri, endpoints)
 
-        for (const exception of undeclared) {
-          const diagnostic = createDiagnostic(endpoint, exception, document)
+    for (const endpoint of endpoints) {
+      const undeclared = getUndeclaredExceptions(endpoint)
+      const candidates = [
+        ...undeclared.map((exception) => createDiagnostic(endpoint, exception, document)),
+        ...this.createUnusedDiagnostics(endpoint, document),
+        ...this.createRedundantDiagnostics(endpoint, document),
+      ]
+
+      for (const diagnostic of candidates) {
+        const suppression = this.findSuppression(document, suppressions, endpoint, diagnostic)
+        if (suppression) {
+          usedSuppressions.add(suppression)
+        } else {
           diagnostics.push(diagnostic)
         }
       }
+    }
+
+    // Suppressions only mean something in files with endpoints
+    if (endpoints.length > 0) {
+      for (const suppression of suppressions) {
+        if (!usedSuppressions.has(suppression)) {
+          diagnostics.push(createUnusedSuppressionDiagnostic(suppression.range))
+        }
+      }
+    }
 
-      this.diagnosticCollection.set(document.uri, diagnostics)
+    // Errors faex reported for this file, e.g. syntax errors
+    for (const error of errors) {
+      diagnostics.push(createAnalysisErrorDiagnostic(error, document))
+    }
+
+    this.setDiagnostics(document.uri, diagnostics)
+    this.updateWorkspaceDiagnostics()
+
+    this._onDidUpdateEndpoints.fire({
+      filePath: document.uri.fsPath,
+      endpoints,
+    })
+  }
+
+  /**
+   * Find the `# faex: ignore` comment that silences a finding: on its line, on the endpoint,
+   * or on the raise site, which may be in a helper module the endpoint calls
+   */
+  private findSuppression(
+    document: SourceDocument,
+    suppressions: Suppression[],
+    endpoint: EndpointInfo,
+    diagnostic: vscode.Diagnostic
+  ): Suppression | undefined {
+    const exception = (diagnostic as DiagnosticWithMetadata).metadata?.exception
+    if (!exception) {
+      return undefined
+    }
+
+    const raiseSiteSuppressions = isSameFile(exception.file, document.uri.fsPath)
+      ? suppressions
+      : this.suppressionIndex.get(exception.file)
+    return (
+      findSuppression(
+        suppressions,
+        endpoint,
+        diagnostic.range.start.line,
+        exception.exceptionClass
+      ) ?? findRaiseSiteSuppression(raiseSiteSuppressions, exception)
+    )
+  }
+
+  /**
+   * Recompute the dependencies of published endpoint files after imports changed
+   */
+  private refreshDependencies(): void {
+    for (const [filePath, endpoints] of this.publishedEndpoints) {
+      this.dependencyIndex.update(filePath, endpoints, this.importGraph.getImportedFiles(filePath))
+    }
+  }
+
+  /**
+   * Recompute the full paths of published endpoints after routers or their mounts changed
+   */
+  private refreshRoutes(): void {
+    let changed = false
+    for (const [filePath, endpoints] of this.publishedEndpoints) {
+      const resolved = endpoints.map((endpoint) => this.routeIndex.resolve(endpoint))
+      const same = resolved.every(
+        (endpoint, i) => JSON.stringify(endpoint.mounts) === JSON.stringify(endpoints[i].mounts)
+      )
+      if (same) {
+        continue
+      }
+      changed = true
+      this.publishedEndpoints.set(filePath, resolved)
+      this._onDidUpdateEndpoints.fire({ filePath, endpoints: resolved })
+    }
+
+    if (changed) {
+      this.updateWorkspaceDiagnostics()
+    }
+  }
+
+  /**
+   * Re-publish files whose exceptions got other base classes after class definitions changed
+   */
+  private async refreshHierarchy(): Promise<void> {
+    this.publishBatches++
+    try {
+      await this.republishChangedHierarchy()
     } finally {
-      this.analysisInProgress.delete(document.uri.fsPath)
+      this.publishBatches--
+      this.updateWorkspaceDiagnostics()
+    }
+  }
+
+  private async republishChangedHierarchy(): Promise<void> {
+    for (const [filePath, endpoints] of [...this.publishedEndpoints]) {
+      const same = endpoints.every(
+        (endpoint) =>
+          JSON.stringify(this.classHierarchy.resolve(endpoint).exceptionAncestors) ===
+          JSON.stringify(endpoint.exceptionAncestors)
+      )
+      if (same) {
+        continue
+      }
+
+      const uri = vscode.Uri.file(filePath)
+      const open = vscode.workspace.textDocuments.find(
+        (doc) => doc.uri.toString() === uri.toString()
+      )
+      try {
+        const document = open ?? (await loadSourceDocument(uri))
+        // The file may have been re-analyzed or closed meanwhile
+        const current = this.publishedEndpoints.get(filePath)
+        if (current) {
+          this.publish(document, current, this.publishedErrors.get(filePath))
+        }
+      } catch {
+        // File was removed since it was analyzed
+        this.clearDiagnostics(uri)
+      }
+    }
+  }
+
+  /**
+   * Rebuild the diagnostics computed over the endpoints of every file, unless a batch of
+   * publishes is in progress
+   */
+  private updateWorkspaceDiagnostics(): void {
+    if (this.publishBatches > 0) {
+      return
+    }
+    this.updatePropagationDiagnostics()
+    this.updateRouteDiagnostics()
+  }
+
+  /**
+   * Rebuild diagnostics on endpoints whose routes conflict with other endpoints
+   */
+  private updateRouteDiagnostics(): void {
+    const byFile = new Map<string, vscode.Diagnostic[]>()
+    for (const conflict of findRouteConflicts(this.getAllEndpoints())) {
+      const list = byFile.get(conflict.endpoint.file) ?? []
+      list.push(createRouteConflictDiagnostic(conflict))
+      byFile.set(conflict.endpoint.file, list)
+    }
+
+    this.routeCollection.clear()
+    this.routeFindings.clear()
+    for (const [file, diagnostics] of byFile) {
+      const uri = vscode.Uri.file(file)
+      this.routeFindings.set(uri.toString(), diagnostics)
+      this.routeCollection.set(uri, applySeverity(uri, diagnostics))
+    }
+  }
+
+  /**
+   * Rebuild diagnostics at raise sites outside the endpoint files
+   */
+  private updatePropagationDiagnostics(): void {
+    // file -> "line:class" -> raise site and the endpoints it reaches
+    const sites = new Map<
+      string,
+      Map<string, { exception: ExceptionLocation; endpoints: EndpointInfo[] }>
+    >()
+
+    for (const endpoint of this.getAllEndpoints()) {
+      for (const exception of getUndeclaredExceptions(endpoint)) {
+        if (isSameFile(exception.file, endpoint.file)) {
+          continue
+        }
+        const byLine = sites.get(exception.file) ?? new Map()
+        const key = `${exception.line}:${exception.exceptionClass}`
+        const site = byLine.get(key) ?? { exception, endpoints: [] }
+        site.endpoints.push(endpoint)
+        byLine.set(key, site)
+        sites.set(exception.file, byLine)
+      }
     }
+
+    this.propagationCollection.clear()
+    this.propagationFindings.clear()
+    for (const [file, byLine] of sites) {
+      const uri = vscode.Uri.file(file)
+      const diagnostics = [...byLine.values()].map(({ exception, endpoints }) =>
+        createPropagationDiagnostic(exception, endpoints)
+      )
+      this.propagationFindings.set(uri.toString(), diagnostics)
+      this.propagationCollection.set(uri, applySeverity(uri, diagnostics))
+    }
+  }
+
+  /**
+   * Notify a failed run unless the same failure was already notified for the file
+   */
+  private notifyFailure(error: AnalysisError): void {
+    if (error.code !== "failed" || this.notifiedFailures.get(error.file) === error.message) {
+      return
+    }
+    this.notifiedFailures.set(error.file, error.message)
+    notifyAnalysisError(error)
+  }
+
+  /**
+   * Tell once per session that unused declarations can't be reported, when faex only lists
+   * undeclared exceptions and the `unused-exception` rule is on
+   */
+  private notifyIncompleteDetection(uri: vscode.Uri, endpoints: EndpointInfo[]): void {
+    if (
+      this.notifiedIncompleteDetection ||
+      !endpoints.some((ep) => ep.detectionComplete === false && ep.declaredExceptions.length > 0) ||
+      getDiagnosticSeverity("unused-exception", getConfig(uri)) === undefined
+    ) {
+      return
+    }
+    this.notifiedIncompleteDetection = true
+
+    const message =
+      "faex: Unused declarations aren't reported because this faex version only lists undeclared exceptions. Upgrade faex, or set 'unused-exception' to 'off' in 'faex.severity'."
+    log(message)
+    vscode.window.showInformationMessage(message)
+  }
+
+  /**
+   * Set diagnostics for a file with the configured severities
+   */
+  private setDiagnostics(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): void {
+    this.findings.set(uri.toString(), diagnostics)
+    this.diagnosticCollection.set(uri, applySeverity(uri, diagnostics))
+  }
+
+  /**
+   * Re-apply `faex.severity` to every published diagnostic
+   */
+  reapplySeverity(): void {
+    for (const [collection, findings] of [
+      [this.diagnosticCollection, this.findings],
+      [this.propagationCollection, this.propagationFindings],
+      [this.routeCollection, this.routeFindings],
+    ] as const) {
+      for (const [key, diagnostics] of findings) {
+        const uri = vscode.Uri.parse(key)
+        collection.set(uri, applySeverity(uri, diagnostics))
+      }
+    }
+  }
+
+  /**
+   * Create diagnostics for declared exceptions that are never raised
+   */
+  private createUnusedDiagnostics(
+    endpoint: EndpointInfo,
+    document: SourceDocument
+  ): vscode.Diagnostic[] {
+    const unused = getUnusedDeclarations(endpoint)
+    if (unused.length === 0) {
+      return []
+    }
+
+    const list = parseExceptionsList(document, endpoint)
+
+    return unused.map((exceptionClass) => {
+      const entry = list && findExceptionsListEntry(list, exceptionClass)
+      const line = Math.min(endpoint.decoratorLine - 1, document.lineCount - 1)
+      const range = entry
+        ? entry.range
+        : new vscode.Range(line, 0, line, document.lineAt(line).text.length)
+      return createUnusedDiagnostic(endpoint, exceptionClass, range)
+    })
+  }
+
+  /**
+   * Create diagnostics for declared exceptions whose declared base class already covers them
+   */
+  private createRedundantDiagnostics(
+    endpoint: EndpointInfo,
+    document: SourceDocument
+  ): vscode.Diagnostic[] {
+    const redundant = getRedundantDeclarations(endpoint)
+    if (redundant.length === 0) {
+      return []
+    }
+
+    const list = parseExceptionsList(document, endpoint)
+
+    return redundant.map((declaration) => {
+      const entry = list && findExceptionsListEntry(list, declaration.exception)
+      const line = Math.min(endpoint.decoratorLine - 1, document.lineCount - 1)
+      const range = entry
+        ? entry.range
+        : new vscode.Range(line, 0, line, document.lineAt(line).text.length)
+      return createRedundantDiagnostic(endpoint, declaration, range)
+    })
   }
 
   /**
    * Get endpoints for a file
    */
   getEndpoints(filePath: string): EndpointInfo[] {
-    return this.endpointCache.get(filePath) || []
+    return this.publishedEndpoints.get(filePath) || []
+  }
+
+  /**
+   * Get endpoints of every analyzed file
+   */
+  getAllEndpoints(): EndpointInfo[] {
+    return [...this.publishedEndpoints.values()].flat()
+  }
+
+  /**
+   * Count the published endpoints of a workspace folder and their undeclared exceptions,
+   * leaving out findings silenced by suppressions or turned off in `faex.severity`
+   */
+  getFolderSummary(folder: vscode.WorkspaceFolder): FolderSummary {
+    const summary: FolderSummary = { endpoints: 0, endpointsWithIssues: 0, undeclared: 0 }
+
+    for (const [filePath, endpoints] of this.publishedEndpoints) {
+      if (getWorkspaceFolder(filePath)?.uri.toString() !== folder.uri.toString()) {
+        continue
+      }
+
+      const uri = vscode.Uri.file(filePath)
+      const config = getConfig(uri)
+      const undeclared = (this.findings.get(uri.toString()) ?? []).filter(
+        (diagnostic) =>
+          isUndeclaredDiagnostic(diagnostic) &&
+          getDiagnosticSeverity(String(diagnostic.code), config) !== undefined
+      )
+      const withIssues = new Set(
+        undeclared.map(
+          (diagnostic) => (diagnostic as DiagnosticWithMetadata).metadata?.endpoint.decoratorLine
+        )
+      )
+
+      summary.endpoints += endpoints.length
+      summary.endpointsWithIssues += endpoints.filter((endpoint) =>
+        withIssues.has(endpoint.decoratorLine)
+      ).length
+      summary.undeclared += undeclared.length
+    }
+
+    return summary
   }
 
   /**
@@ -84,16 +844,52 @@ export class DiagnosticsManager implements vscode.Disposable {
    * Clear diagnostics for a specific URI
    */
   clearDiagnostics(uri: vscode.Uri): void {
+    this.cancelScheduledAnalysis(uri)
+    this.analysisInProgress.get(uri.fsPath)?.cancel()
     this.diagnosticCollection.delete(uri)
-    this.endpointCache.delete(uri.fsPath)
+    this.findings.delete(uri.toString())
+    const hadEndpoints = this.publishedEndpoints.delete(uri.fsPath)
+    this.publishedErrors.delete(uri.fsPath)
+    this.dependencyIndex.remove(uri.fsPath)
+    this.updateWorkspaceDiagnostics()
+
+    if (hadEndpoints) {
+      this._onDidUpdateEndpoints.fire({ filePath: uri.fsPath, endpoints: [] })
+    }
+  }
+
+  /**
+   * Handle a closed document
+   * Results from a workspace check stay in the Problems panel
+   */
+  handleDocumentClosed(uri: vscode.Uri): void {
+    if (this.workspaceFiles.has(uri.fsPath)) {
+      this.cancelScheduledAnalysis(uri)
+    } else {
+      this.clearDiagnostics(uri)
+    }
   }
 
   /**
    * Clear all diagnostics
    */
   clearAllDiagnostics(): void {
+    this.workspaceAnalysis = undefined
     this.diagnosticCollection.clear()
-    this.endpointCache.clear()
+    this.propagationCollection.clear()
+    this.routeCollection.clear()
+    this.findings.clear()
+    this.propagationFindings.clear()
+    this.routeFindings.clear()
+    const files = [...this.publishedEndpoints.keys()]
+    this.publishedEndpoints.clear()
+    this.publishedErrors.clear()
+    this.dependencyIndex.clear()
+    this.workspaceFiles.clear()
+
+    for (const filePath of files) {
+      this._onDidUpdateEndpoints.fire({ filePath, endpoints: [] })
+    }
   }
 
   /**
@@ -113,7 +909,53 @@ export class DiagnosticsManager implements vscode.Disposable {
    * Dispose resources
    */
   dispose(): void {
+    for (const timer of this.debounceTimers.values()) {
+      clearTimeout(timer)
+    }
+    this.debounceTimers.clear()
+    clearTimeout(this.dependencyTimer)
+    for (const tokenSource of this.analysisInProgress.values()) {
+      tokenSource.cancel()
+    }
     this.diagnosticCollection.dispose()
-    this.endpointCache.clear()
+    this.propagationCollection.dispose()
+    this.routeCollection.dispose()
+    this._onDidUpdateEndpoints.dispose()
+    this.sourceSubscription.dispose()
+    this.publishedEndpoints.clear()
+    this.publishedErrors.clear()
   }
 }
+
+/**
+ * Set each diagnostic's severity from `faex.severity`, dropping rules that are off
+ */
+function applySeverity(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): vscode.Diagnostic[] {
+  const config = getConfig(uri)
+  return diagnostics.filter((diagnostic) => {
+    const severity = getDiagnosticSeverity(String(diagnostic.code), config)
+    if (severity === undefined) {
+      return false
+    }
+    diagnostic.severity = severity
+    return true
+  })
+}
+
+/**
+ * Whether a diagnostic reports an exception missing from an endpoint's declarations
+ */
+export function isUndeclaredDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+  return diagnostic.code === "undeclared-exception" || diagnostic.code === "transitive-exception"
+}
+
+function isSameFile(a: string, b: string): boolean {
+  return path.resolve(a) === path.resolve(b)
+}
+
+/**
+ * Path of a file's workspace folder
+ */
+function getFolderPath(file: string): string | undefined {
+  return getWorkspaceFolder(file)?.uri.fsPath
+}
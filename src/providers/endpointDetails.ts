@@ -0,0 +1,405 @@
+import * as vscode from "vscode"
+import * as crypto from "crypto"
+import * as path from "path"
+import { DiagnosticsManager, EndpointsChangeEvent } from "./diagnostics"
+import { createAddExceptionEdit } from "./codeAction"
+import { findCallSite } from "../analyzer/analyzer"
+import {
+  EndpointInfo,
+  ExceptionLocation,
+  formatRoute,
+  getEndpointPaths,
+  getUndeclaredExceptions,
+  getUnusedDeclarations,
+  isCoveredBy,
+} from "../types"
+import { findExceptionsListEntry, parseExceptionsList } from "../utils/exceptionsList"
+import { SourceDocument, loadSourceDocument } from "../utils/sourceDocument"
+
+/**
+ * Message posted by the webview when a link or button is clicked
+ */
+interface WebviewMessage {
+  action: "open" | "add" | "remove" | "recheck"
+  file?: string
+  line?: string
+  /** Comma-separated exception classes */
+  exceptions?: string
+}
+
+/** What each webview action does, for error messages */
+const ACTION_DESCRIPTIONS: Record<WebviewMessage["action"], string> = {
+  open: "open the file",
+  add: "add the exception declaration",
+  remove: "remove the exception declaration",
+  recheck: "re-check the file",
+}
+
+/**
+ * Webview panel with the full exception details of one endpoint
+ * Follows the endpoint as its file is re-analyzed
+ */
+export class EndpointDetailsPanel implements vscode.Disposable {
+  private panel: vscode.WebviewPanel | undefined
+  private endpoint: EndpointInfo | undefined
+  /** Set when the endpoint disappeared from the last analysis of its file */
+  private missing = false
+  private disposables: vscode.Disposable[] = []
+  /** Subscriptions to the open panel, disposed with it */
+  private panelDisposables: vscode.Disposable[] = []
+
+  constructor(private diagnosticsManager: DiagnosticsManager) {
+    this.disposables.push(
+      diagnosticsManager.onDidUpdateEndpoints((event) => this.handleEndpointsUpdated(event))
+    )
+  }
+
+  /**
+   * Show an endpoint, reusing the open panel
+   */
+  async show(endpoint: EndpointInfo): Promise<void> {
+    this.endpoint = endpoint
+    this.missing = false
+
+    if (this.panel) {
+      this.panel.reveal(undefined, true)
+    } else {
+      this.panel = vscode.window.createWebviewPanel(
+        "faex.endpointDetails",
+        "faex",
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+        { enableScripts: true, localResourceRoots: [] }
+      )
+      this.panelDisposables.push(
+        this.panel.onDidDispose(() => {
+          this.panel = undefined
+          this.endpoint = undefined
+          for (const disposable of this.panelDisposables.splice(0)) {
+            disposable.dispose()
+          }
+        }),
+        this.panel.webview.onDidReceiveMessage((message: WebviewMessage) =>
+          this.handleMessage(message)
+        )
+      )
+    }
+
+    await this.render()
+  }
+
+  private async handleEndpointsUpdated(event: EndpointsChangeEvent): Promise<void> {
+    const current = this.endpoint
+    if (!this.panel || !current || path.resolve(event.filePath) !== path.resolve(current.file)) {
+      return
+    }
+
+    const updated = findSameEndpoint(current, event.endpoints)
+    if (updated) {
+      this.endpoint = updated
+      this.missing = false
+    } else {
+      this.missing = true
+    }
+    await this.render()
+  }
+
+  private async handleMessage(message: WebviewMessage): Promise<void> {
+    const endpoint = this.endpoint
+    if (!endpoint) {
+      return
+    }
+
+    try {
+      await this.runAction(message, endpoint)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error"
+      vscode.window.showErrorMessage(
+        `faex: Failed to ${ACTION_DESCRIPTIONS[message.action]}: ${reason}`
+      )
+    }
+  }
+
+  private async runAction(message: WebviewMessage, endpoint: EndpointInfo): Promise<void> {
+    switch (message.action) {
+      case "open": {
+        if (!message.file) {
+          return
+        }
+        const line = Math.max(0, Number(message.line ?? 1) - 1)
+        await vscode.window.showTextDocument(vscode.Uri.file(message.file), {
+          viewColumn: vscode.ViewColumn.One,
+          selection: new vscode.Range(line, 0, line, 0),
+        })
+        return
+      }
+      case "add": {
+        const exceptions = message.exceptions?.split(",").filter(Boolean) ?? []
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(endpoint.file))
+        await vscode.workspace.applyEdit(createAddExceptionEdit(document, endpoint, exceptions))
+        await this.diagnosticsManager.analyzeDocument(document)
+        return
+      }
+      case "remove": {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(endpoint.file))
+        const list = parseExceptionsList(document, endpoint)
+        const entry =
+          list && message.exceptions && findExceptionsListEntry(list, message.exceptions)
+        if (!entry) {
+          vscode.window.showWarningMessage(`faex: '${message.exceptions}' is no longer declared`)
+          return
+        }
+        const edit = new vscode.WorkspaceEdit()
+        edit.delete(document.uri, entry.removeRange)
+        await vscode.workspace.applyEdit(edit)
+        await this.diagnosticsManager.analyzeDocument(document)
+        return
+      }
+      case "recheck": {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(endpoint.file))
+        await this.diagnosticsManager.analyzeDocument(document)
+        return
+      }
+    }
+  }
+
+  private async render(): Promise<void> {
+    const panel = this.panel
+    const endpoint = this.endpoint
+    if (!panel || !endpoint) {
+      return
+    }
+
+    let document: SourceDocument | undefined
+    try {
+      document = await loadSourceDocument(vscode.Uri.file(endpoint.file))
+    } catch {
+      // Call sites can't be located in a file that was removed
+    }
+
+    panel.title = formatRoute(endpoint)
+    panel.webview.html = renderHtml(panel.webview, endpoint, document, this.missing)
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this.panel?.dispose()
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+  }
+}
+
+/**
+ * Find an endpoint in a new analysis of its file, which may have moved lines
+ */
+function findSameEndpoint(
+  endpoint: EndpointInfo,
+  endpoints: EndpointInfo[]
+): EndpointInfo | undefined {
+  const candidates = endpoints.filter((ep) => ep.functionName === endpoint.functionName)
+  return (
+    candidates.find((ep) => ep.method === endpoint.method && ep.path === endpoint.path) ??
+    candidates[0] ??
+    endpoints.find((ep) => ep.method === endpoint.method && ep.path === endpoint.path)
+  )
+}
+
+function groupByClass(exceptions: ExceptionLocation[]): Map<string, ExceptionLocation[]> {
+  const groups = new Map<string, ExceptionLocation[]>()
+  for (const exception of exceptions) {
+    const sites = groups.get(exception.exceptionClass) ?? []
+    sites.push(exception)
+    groups.set(exception.exceptionClass, sites)
+  }
+  return groups
+}
+
+function renderHtml(
+  webview: vscode.Webview,
+  endpoint: EndpointInfo,
+  document: SourceDocument | undefined,
+  missing: boolean
+): string {
+  const nonce = crypto.randomBytes(16).toString("base64")
+  const undeclared = groupByClass(getUndeclaredExceptions(endpoint))
+  const unused = getUnusedDeclarations(endpoint)
+
+  const sections: string[] = []
+
+  if (missing) {
+    sections.push(
+      `<p class="notice">This endpoint was not found in the last analysis of its file. The details below may be out of date.</p>`
+    )
+  }
+
+  // Undeclared exceptions with every raise site behind them
+  if (undeclared.size > 0) {
+    const classes = [...undeclared.keys()]
+    const items = [...undeclared].map(
+      ([exceptionClass, sites]) => `
+        <li>
+          <div class="row">
+            <code>${escapeHtml(exceptionClass)}</code>
+            ${button("add", "Add to exceptions", { exceptions: exceptionClass })}
+          </div>
+          ${renderSites(endpoint, sites, document)}
+        </li>`
+    )
+    sections.push(`
+      <h2>Undeclared <span class="count">${undeclared.size}</span>
+        ${classes.length > 1 ? button("add", "Add all missing", { exceptions: classes.join(",") }) : ""}
+      </h2>
+      <ul>${items.join("")}</ul>`)
+  }
+
+  // Declared exceptions and where they are raised
+  if (endpoint.declaredExceptions.length > 0) {
+    const items = endpoint.declaredExceptions.map((declaredName) => {
+      const sites = endpoint.detectedExceptions.filter((exc) =>
+        isCoveredBy(endpoint, exc.exceptionClass, declaredName)
+      )
+      let body: string
+      if (sites.length > 0) {
+        body = renderSites(endpoint, sites, document)
+      } else if (endpoint.detectionComplete === false) {
+        body = `<p class="muted">Raise sites are unknown: this faex version only reports undeclared exceptions.</p>`
+      } else {
+        body = `<p class="muted">Never raised</p>`
+      }
+      return `
+        <li>
+          <div class="row"><code>${escapeHtml(declaredName)}</code></div>
+          ${body}
+        </li>`
+    })
+    sections.push(`
+      <h2>Declared <span class="count">${endpoint.declaredExceptions.length}</span></h2>
+      <ul>${items.join("")}</ul>`)
+  } else {
+    sections.push(`<h2>Declared <span class="count">0</span></h2><p class="muted">None</p>`)
+  }
+
+  // Declarations the endpoint never raises
+  if (unused.length > 0) {
+    const items = unused.map(
+      (name) => `
+        <li>
+          <div class="row">
+            <code>${escapeHtml(name)}</code>
+            ${button("remove", "Remove from exceptions", { exceptions: name })}
+          </div>
+        </li>`
+    )
+    sections.push(`
+      <h2>Unused <span class="count">${unused.length}</span></h2>
+      <ul>${items.join("")}</ul>`)
+  }
+
+  const location = `${vscode.workspace.asRelativePath(endpoint.file)}:${endpoint.decoratorLine}`
+  const folder = endpoint.workspaceFolder ? ` · ${escapeHtml(endpoint.workspaceFolder)}` : ""
+  const headings = getEndpointPaths(endpoint).map(
+    (routePath) =>
+      `<h1><span class="method">${escapeHtml(endpoint.method.toUpperCase())}</span> ${escapeHtml(routePath)}</h1>`
+  )
+  const declaredAs = endpoint.mounts?.length
+    ? `<p class="muted">Declared as <code>${escapeHtml(endpoint.path)}</code>${endpoint.router ? ` on <code>${escapeHtml(endpoint.router)}</code>` : ""}</p>`
+    : ""
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    h1 { font-size: 1.4em; display: flex; align-items: center; gap: 8px; margin: 12px 0 4px; }
+    h2 { font-size: 1.1em; margin-top: 24px; display: flex; align-items: center; gap: 8px; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; }
+    ul { list-style: none; padding: 0; margin: 0; }
+    li { margin: 8px 0 12px; }
+    ol { margin: 4px 0 0; padding-left: 20px; }
+    ol li { margin: 2px 0; }
+    a { color: var(--vscode-textLink-foreground); text-decoration: none; cursor: pointer; }
+    a:hover { text-decoration: underline; }
+    code { font-family: var(--vscode-editor-font-family); }
+    .method { font-family: var(--vscode-editor-font-family); font-size: 0.8em; padding: 2px 6px; border-radius: 3px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+    .count { font-size: 0.8em; padding: 0 6px; border-radius: 8px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+    .row { display: flex; align-items: center; gap: 8px; }
+    .muted { color: var(--vscode-descriptionForeground); margin: 4px 0; }
+    .notice { padding: 8px; border-left: 3px solid var(--vscode-editorWarning-foreground); background: var(--vscode-textBlockQuote-background); }
+    button { font-family: inherit; font-size: 0.9em; padding: 2px 8px; border: none; border-radius: 2px; cursor: pointer; color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+    button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+  </style>
+</head>
+<body>
+  ${headings.join("\n")}
+  ${declaredAs}
+  <div class="row">
+    <code>${escapeHtml(endpoint.functionName)}()</code>
+    <span class="muted">${link(location, endpoint.file, endpoint.decoratorLine)}${folder}</span>
+    ${button("recheck", "Re-check")}
+  </div>
+  ${sections.join("\n")}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi()
+    document.addEventListener("click", (event) => {
+      const target = event.target.closest("[data-action]")
+      if (target) {
+        event.preventDefault()
+        vscode.postMessage({ ...target.dataset })
+      }
+    })
+  </script>
+</body>
+</html>`
+}
+
+/**
+ * Render raise sites, each with the call chain from the endpoint
+ */
+function renderSites(
+  endpoint: EndpointInfo,
+  sites: ExceptionLocation[],
+  document: SourceDocument | undefined
+): string {
+  const items = sites.map((site) => {
+    const chain = [link(`${endpoint.functionName}()`, endpoint.file, endpoint.line)]
+    if (site.inFunction) {
+      const callSite = document && findCallSite(document, endpoint, site.inFunction)
+      chain.push(
+        callSite
+          ? link(`${site.inFunction}()`, endpoint.file, callSite.start.line + 1)
+          : `<code>${escapeHtml(site.inFunction)}()</code>`
+      )
+    }
+    chain.push(link(`raise ${site.exceptionClass}`, site.file, site.line))
+
+    const location = `${vscode.workspace.asRelativePath(site.file)}:${site.line}`
+    return `<li>${chain.join(" → ")} <span class="muted">${link(location, site.file, site.line)}</span></li>`
+  })
+  return `<ol>${items.join("")}</ol>`
+}
+
+function link(text: string, file: string, line: number): string {
+  return `<a data-action="open" data-file="${escapeHtml(file)}" data-line="${line}"><code>${escapeHtml(text)}</code></a>`
+}
+
+function button(
+  action: WebviewMessage["action"],
+  text: string,
+  data: { exceptions?: string } = {}
+): string {
+  const attributes = data.exceptions ? ` data-exceptions="${escapeHtml(data.exceptions)}"` : ""
+  return `<button data-action="${action}"${attributes}>${escapeHtml(text)}</button>`
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
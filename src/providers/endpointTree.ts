@@ -0,0 +1,272 @@
+import * as vscode from "vscode"
+import * as path from "path"
+import { DiagnosticsManager } from "./diagnostics"
+import { getWorkspaceFolder, isMultiRoot } from "../utils/config"
+import { notifyAnalysisError } from "../utils/errorDetails"
+import {
+  EndpointInfo,
+  getEndpointPaths,
+  getUndeclaredExceptions,
+  getUnusedDeclarations,
+  hasIssues,
+} from "../types"
+
+/**
+ * Node types displayed in the endpoint tree
+ */
+export type EndpointTreeNode = FolderNode | FileNode | MethodNode | EndpointNode | ExceptionNode
+
+export interface FolderNode {
+  kind: "folder"
+  folder: vscode.WorkspaceFolder
+}
+
+export interface FileNode {
+  kind: "file"
+  file: string
+}
+
+export interface MethodNode {
+  kind: "method"
+  file: string
+  method: string
+}
+
+export interface EndpointNode {
+  kind: "endpoint"
+  endpoint: EndpointInfo
+}
+
+export interface ExceptionNode {
+  kind: "exception"
+  endpoint: EndpointInfo
+  exceptionClass: string
+  status: "declared" | "undeclared" | "unused"
+  /** Raise site for undeclared exceptions */
+  file?: string
+  line?: number
+  inFunction?: string
+}
+
+/**
+ * Provides the "faex Endpoints" tree view
+ * Endpoints are grouped by file and HTTP method, and by workspace folder in multi-root workspaces
+ */
+export class EndpointTreeProvider implements vscode.TreeDataProvider<EndpointTreeNode> {
+  private _onDidChangeTreeData: vscode.EventEmitter<EndpointTreeNode | undefined | void> =
+    new vscode.EventEmitter<EndpointTreeNode | undefined | void>()
+  public readonly onDidChangeTreeData: vscode.Event<EndpointTreeNode | undefined | void> =
+    this._onDidChangeTreeData.event
+
+  private disposables: vscode.Disposable[] = []
+
+  constructor(private diagnosticsManager: DiagnosticsManager) {
+    // Endpoints come from the diagnostics manager, so the tree follows every re-analysis
+    this.disposables.push(
+      diagnosticsManager.onDidUpdateEndpoints(() => this._onDidChangeTreeData.fire())
+    )
+  }
+
+  /**
+   * Re-run workspace analysis; the tree updates as files are published
+   */
+  async refresh(): Promise<void> {
+    for (const error of await this.diagnosticsManager.reanalyzeWorkspace()) {
+      notifyAnalysisError(error)
+    }
+  }
+
+  getTreeItem(node: EndpointTreeNode): vscode.TreeItem {
+    switch (node.kind) {
+      case "folder":
+        return this.createFolderItem(node)
+      case "file":
+        return this.createFileItem(node)
+      case "method":
+        return this.createMethodItem(node)
+      case "endpoint":
+        return this.createEndpointItem(node)
+      case "exception":
+        return this.createExceptionItem(node)
+    }
+  }
+
+  async getChildren(node?: EndpointTreeNode): Promise<EndpointTreeNode[]> {
+    if (!node) {
+      // Analyze the workspace lazily the first time the view is shown
+      await this.diagnosticsManager.ensureWorkspaceAnalyzed()
+      if (isMultiRoot()) {
+        return (vscode.workspace.workspaceFolders ?? [])
+          .filter((folder) => this.getFiles(folder).length > 0)
+          .map((folder): FolderNode => ({ kind: "folder", folder }))
+      }
+      return this.getFiles().map((file): FileNode => ({ kind: "file", file }))
+    }
+
+    switch (node.kind) {
+      case "folder":
+        return this.getFiles(node.folder).map((file): FileNode => ({ kind: "file", file }))
+      case "file": {
+        const endpoints = this.diagnosticsManager.getEndpoints(node.file)
+        const methods = [...new Set(endpoints.map((ep) => ep.method.toUpperCase()))]
+        return methods.map((method): MethodNode => ({ kind: "method", file: node.file, method }))
+      }
+      case "method":
+        return this.diagnosticsManager
+          .getEndpoints(node.file)
+          .filter((ep) => ep.method.toUpperCase() === node.method)
+          .map((endpoint): EndpointNode => ({ kind: "endpoint", endpoint }))
+      case "endpoint":
+        return this.getExceptionNodes(node.endpoint)
+      case "exception":
+        return []
+    }
+  }
+
+  /**
+   * Get files with endpoints, optionally limited to a workspace folder
+   */
+  private getFiles(folder?: vscode.WorkspaceFolder): string[] {
+    const files = new Set(this.diagnosticsManager.getAllEndpoints().map((ep) => ep.file))
+    return [...files]
+      .filter(
+        (file) => !folder || getWorkspaceFolder(file)?.uri.toString() === folder.uri.toString()
+      )
+      .sort()
+  }
+
+  /**
+   * Build child nodes for declared, undeclared and unused exceptions
+   */
+  private getExceptionNodes(endpoint: EndpointInfo): ExceptionNode[] {
+    const unused = new Set(getUnusedDeclarations(endpoint))
+    const nodes: ExceptionNode[] = []
+
+    for (const exceptionClass of endpoint.declaredExceptions) {
+      nodes.push({
+        kind: "exception",
+        endpoint,
+        exceptionClass,
+        status: unused.has(exceptionClass) ? "unused" : "declared",
+      })
+    }
+
+    for (const exc of getUndeclaredExceptions(endpoint)) {
+      nodes.push({
+        kind: "exception",
+        endpoint,
+        exceptionClass: exc.exceptionClass,
+        status: "undeclared",
+        file: exc.file,
+        line: exc.line,
+        inFunction: exc.inFunction,
+      })
+    }
+
+    return nodes
+  }
+
+  private createFolderItem(node: FolderNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(node.folder.name, vscode.TreeItemCollapsibleState.Expanded)
+    item.iconPath = new vscode.ThemeIcon("root-folder")
+    item.tooltip = node.folder.uri.fsPath
+    item.contextValue = "folder"
+    return item
+  }
+
+  private createFileItem(node: FileNode): vscode.TreeItem {
+    const uri = vscode.Uri.file(node.file)
+    const item = new vscode.TreeItem(uri, vscode.TreeItemCollapsibleState.Expanded)
+    item.description = path.dirname(vscode.workspace.asRelativePath(uri, false))
+    item.contextValue = "file"
+
+    const endpoints = this.diagnosticsManager.getEndpoints(node.file)
+    const issues = endpoints.filter(hasIssues).length
+    if (issues > 0) {
+      item.tooltip = `${issues} endpoint(s) with undeclared exceptions`
+    }
+
+    return item
+  }
+
+  private createMethodItem(node: MethodNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(node.method, vscode.TreeItemCollapsibleState.Expanded)
+    item.iconPath = new vscode.ThemeIcon("symbol-method")
+    item.contextValue = "method"
+    return item
+  }
+
+  private createEndpointItem(node: EndpointNode): vscode.TreeItem {
+    const { endpoint } = node
+    const issues = hasIssues(endpoint)
+    const item = new vscode.TreeItem(
+      getEndpointPaths(endpoint).join(", "),
+      vscode.TreeItemCollapsibleState.Collapsed
+    )
+
+    item.description = endpoint.functionName
+    item.iconPath = issues
+      ? new vscode.ThemeIcon("warning", new vscode.ThemeColor("problemsWarningIcon.foreground"))
+      : new vscode.ThemeIcon("pass")
+    item.contextValue = issues ? "endpointWithIssues" : "endpoint"
+    item.command = createOpenCommand(endpoint.file, endpoint.decoratorLine)
+
+    return item
+  }
+
+  private createExceptionItem(node: ExceptionNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(node.exceptionClass, vscode.TreeItemCollapsibleState.None)
+    item.contextValue = `exception.${node.status}`
+
+    switch (node.status) {
+      case "declared":
+        item.description = "declared"
+        item.iconPath = new vscode.ThemeIcon("check")
+        break
+      case "unused":
+        item.description = "unused"
+        item.iconPath = new vscode.ThemeIcon("circle-slash")
+        break
+      case "undeclared":
+        item.description = node.inFunction ? `undeclared (in ${node.inFunction})` : "undeclared"
+        item.iconPath = new vscode.ThemeIcon(
+          "warning",
+          new vscode.ThemeColor("problemsWarningIcon.foreground")
+        )
+        break
+    }
+
+    // Undeclared exceptions jump to the raise site, declarations to the decorator
+    item.command =
+      node.status === "undeclared" && node.file && node.line
+        ? createOpenCommand(node.file, node.line)
+        : createOpenCommand(
+            node.endpoint.file,
+            node.endpoint.exceptionsLine ?? node.endpoint.decoratorLine
+          )
+
+    return item
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this._onDidChangeTreeData.dispose()
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+  }
+}
+
+/**
+ * Create a command that opens a file at the given line (1-indexed)
+ */
+function createOpenCommand(file: string, line: number): vscode.Command {
+  const position = new vscode.Position(Math.max(0, line - 1), 0)
+  return {
+    title: "Open",
+    command: "vscode.open",
+    arguments: [vscode.Uri.file(file), { selection: new vscode.Range(position, position) }],
+  }
+}
@@ -0,0 +1,151 @@
+import * as vscode from "vscode"
+import * as path from "path"
+import { DiagnosticsManager } from "./diagnostics"
+import { EndpointInfo, ExceptionLocation, formatRoute, isCoveredBy, isDeclared } from "../types"
+import { parseExceptionsList } from "../utils/exceptionsList"
+
+/**
+ * Provides hover cards for raise statements and exceptions list entries
+ */
+export class HoverProvider implements vscode.HoverProvider {
+  constructor(private diagnosticsManager: DiagnosticsManager) {}
+
+  provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    _token: vscode.CancellationToken
+  ): vscode.Hover | undefined {
+    return this.hoverExceptionsList(document, position) ?? this.hoverRaise(document, position)
+  }
+
+  /**
+   * Hover on `raise Foo`: which endpoints the exception reaches and whether they declare it
+   */
+  private hoverRaise(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.Hover | undefined {
+    const lineText = document.lineAt(position.line).text
+    const match = lineText.match(/\braise\s+([A-Za-z_][\w.]*)/)
+    if (!match || match.index === undefined) {
+      return undefined
+    }
+
+    const start = match.index
+    const range = new vscode.Range(position.line, start, position.line, start + match[0].length)
+    if (!range.contains(position)) {
+      return undefined
+    }
+
+    // Stay quiet on raise sites no analyzed endpoint reaches
+    const reached = this.findEndpointsReachedFrom(document.uri.fsPath, position.line + 1)
+    if (reached.length === 0) {
+      return undefined
+    }
+
+    const exceptionClass = match[1].split(".").pop() as string
+    const markdown = new vscode.MarkdownString()
+    markdown.appendMarkdown(`**faex** · \`${exceptionClass}\`\n\n`)
+    markdown.appendMarkdown(`Reaches ${reached.length} endpoint(s):\n\n`)
+    for (const { endpoint, exception } of reached) {
+      const declared = isDeclared(endpoint, exception.exceptionClass)
+      const status = declared ? "✓ declared" : "⚠ not declared"
+      markdown.appendMarkdown(
+        `- ${formatEndpointLink(endpoint)} — ${status}\n  \n  ${formatCallChain(endpoint, exception)}\n`
+      )
+    }
+
+    return new vscode.Hover(markdown, range)
+  }
+
+  /**
+   * Hover on an entry of `exceptions=[...]`: the raise sites that justify it
+   */
+  private hoverExceptionsList(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.Hover | undefined {
+    for (const endpoint of this.diagnosticsManager.getEndpoints(document.uri.fsPath)) {
+      const list = parseExceptionsList(document, endpoint)
+      const entry = list?.entries.find((e) => e.range.contains(position))
+      if (!list || !entry) {
+        continue
+      }
+
+      const exceptionClass = entry.name.split(".").pop() as string
+      // Raises of subclasses count for a declared base class
+      const sites = endpoint.detectedExceptions.filter((exc) =>
+        isCoveredBy(endpoint, exc.exceptionClass, entry.name)
+      )
+
+      const markdown = new vscode.MarkdownString()
+      markdown.appendMarkdown(`**faex** · \`${exceptionClass}\` in ${formatEndpoint(endpoint)}\n\n`)
+
+      if (sites.length > 0) {
+        markdown.appendMarkdown(`Raised at ${sites.length} site(s):\n\n`)
+        for (const site of sites) {
+          markdown.appendMarkdown(
+            `- ${formatLocationLink(site)}\n  \n  ${formatCallChain(endpoint, site)}\n`
+          )
+        }
+      } else if (endpoint.detectionComplete === false) {
+        markdown.appendMarkdown(
+          "Raise sites are unknown: this faex version only reports undeclared exceptions."
+        )
+      } else {
+        markdown.appendMarkdown("No raise site found. This declaration is unused.")
+      }
+
+      return new vscode.Hover(markdown, entry.range)
+    }
+
+    return undefined
+  }
+
+  /**
+   * Find endpoints whose detected exceptions are raised at a file and line
+   */
+  private findEndpointsReachedFrom(
+    filePath: string,
+    line: number
+  ): { endpoint: EndpointInfo; exception: ExceptionLocation }[] {
+    const reached: { endpoint: EndpointInfo; exception: ExceptionLocation }[] = []
+
+    for (const endpoint of this.diagnosticsManager.getAllEndpoints()) {
+      const exception = endpoint.detectedExceptions.find(
+        (exc) => exc.line === line && path.resolve(exc.file) === path.resolve(filePath)
+      )
+      if (exception) {
+        reached.push({ endpoint, exception })
+      }
+    }
+
+    return reached
+  }
+}
+
+function formatEndpoint(endpoint: EndpointInfo): string {
+  return `\`${formatRoute(endpoint)}\``
+}
+
+function formatEndpointLink(endpoint: EndpointInfo): string {
+  const uri = vscode.Uri.file(endpoint.file).with({ fragment: `L${endpoint.decoratorLine}` })
+  return `[${formatRoute(endpoint)}](${uri.toString()})`
+}
+
+function formatLocationLink(exception: ExceptionLocation): string {
+  const uri = vscode.Uri.file(exception.file).with({ fragment: `L${exception.line}` })
+  return `[${vscode.workspace.asRelativePath(exception.file)}:${exception.line}](${uri.toString()})`
+}
+
+/**
+ * Format how an exception gets from the endpoint to its raise site
+ */
+function formatCallChain(endpoint: EndpointInfo, exception: ExceptionLocation): string {
+  const chain = [`\`${endpoint.functionName}()\``]
+  if (exception.inFunction) {
+    chain.push(`\`${exception.inFunction}()\``)
+  }
+  chain.push(`\`raise ${exception.exceptionClass}\``)
+  return chain.join(" → ")
+}
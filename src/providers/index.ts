@@ -1,3 +1,8 @@
 export { DiagnosticsManager } from "./diagnostics"
 export { CodeActionProvider } from "./codeAction"
 export { CodeLensProvider } from "./codeLens"
+export { EndpointTreeProvider } from "./endpointTree"
+export { StatusBarManager } from "./statusBar"
+export { HoverProvider } from "./hover"
+export { EndpointDetailsPanel } from "./endpointDetails"
+export { DocumentSymbolProvider, WorkspaceSymbolProvider } from "./symbols"
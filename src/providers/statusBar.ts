@@ -0,0 +1,119 @@
+import * as vscode from "vscode"
+import { DiagnosticsManager, FolderSummary, isUndeclaredDiagnostic } from "./diagnostics"
+import { isFaexRunning, onDidChangeActiveRuns } from "../analyzer/cli"
+
+/**
+ * Shows faex validation state in the status bar
+ */
+export class StatusBarManager implements vscode.Disposable {
+  private statusBarItem: vscode.StatusBarItem
+  private disposables: vscode.Disposable[] = []
+  private faexAvailable = true
+  /** Summaries keyed by workspace folder name */
+  private workspaceSummaries: Map<string, FolderSummary> = new Map()
+
+  constructor(private diagnosticsManager: DiagnosticsManager) {
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100)
+    this.statusBarItem.command = "faex.showStatusMenu"
+
+    this.disposables.push(
+      onDidChangeActiveRuns(() => this.update()),
+      diagnosticsManager.onDidUpdateEndpoints(() => this.update()),
+      vscode.window.onDidChangeActiveTextEditor(() => this.update())
+    )
+
+    this.update()
+    this.statusBarItem.show()
+  }
+
+  /**
+   * Record whether the faex CLI could be found
+   */
+  setFaexAvailable(available: boolean): void {
+    this.faexAvailable = available
+    this.update()
+  }
+
+  /**
+   * Record totals of the given folders once their workspace check has been published
+   */
+  setWorkspaceResult(
+    folders: readonly vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders ?? []
+  ): void {
+    for (const folder of folders) {
+      this.workspaceSummaries.set(folder.name, this.diagnosticsManager.getFolderSummary(folder))
+    }
+    this.update()
+  }
+
+  /**
+   * Refresh the status bar text and tooltip
+   */
+  update(): void {
+    const item = this.statusBarItem
+
+    if (!this.faexAvailable) {
+      item.text = "$(error) faex"
+      item.tooltip =
+        "faex CLI not found. Install it with 'pip install faex' or configure 'faex.faexPath'."
+      item.backgroundColor = new vscode.ThemeColor("statusBarItem.errorBackground")
+      return
+    }
+
+    item.backgroundColor = undefined
+
+    if (isFaexRunning()) {
+      item.text = "$(sync~spin) faex"
+      item.tooltip = "faex: Analyzing..."
+      return
+    }
+
+    const tooltip: string[] = []
+    const fileCount = this.getActiveFileCount()
+
+    if (fileCount === undefined) {
+      item.text = "$(shield) faex"
+    } else if (fileCount === 0) {
+      item.text = "$(check) faex"
+      tooltip.push("Current file: no undeclared exceptions")
+    } else {
+      item.text = `$(warning) faex: ${fileCount}`
+      tooltip.push(`Current file: ${fileCount} undeclared exception(s)`)
+    }
+
+    for (const [folder, summary] of this.workspaceSummaries) {
+      const { endpoints, endpointsWithIssues, undeclared } = summary
+      const label = this.workspaceSummaries.size > 1 ? folder : "Workspace"
+      tooltip.push(
+        `${label}: ${undeclared} undeclared exception(s) in ${endpointsWithIssues} of ${endpoints} endpoints`
+      )
+    }
+
+    tooltip.push("Click for faex actions")
+    item.tooltip = tooltip.join("\n")
+  }
+
+  /**
+   * Count undeclared exceptions in the active Python editor
+   */
+  private getActiveFileCount(): number | undefined {
+    const editor = vscode.window.activeTextEditor
+    if (!editor || editor.document.languageId !== "python") {
+      return undefined
+    }
+
+    return this.diagnosticsManager
+      .getDiagnostics(editor.document.uri)
+      .filter(isUndeclaredDiagnostic).length
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this.statusBarItem.dispose()
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+  }
+}
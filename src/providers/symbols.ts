@@ -0,0 +1,153 @@
+import * as vscode from "vscode"
+import { DiagnosticsManager } from "./diagnostics"
+import { getAnalyzer } from "../analyzer/analyzer"
+import {
+  EndpointInfo,
+  formatRoute,
+  getEndpointPaths,
+  getUndeclaredExceptions,
+  hasIssues,
+} from "../types"
+
+/** Appended to symbol names of endpoints with undeclared exceptions */
+const ISSUE_MARKER = "⚠"
+
+/**
+ * Lists the routes of a Python file in the Outline view and breadcrumbs
+ */
+export class DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  constructor(private diagnosticsManager: DiagnosticsManager) {}
+
+  async provideDocumentSymbols(
+    document: vscode.TextDocument,
+    _token: vscode.CancellationToken
+  ): Promise<vscode.DocumentSymbol[]> {
+    let endpoints = this.diagnosticsManager.getEndpoints(document.uri.fsPath)
+
+    // Before the first analysis finishes, use the result cached for this content
+    if (endpoints.length === 0) {
+      endpoints = (await getAnalyzer().getCachedResult(document))?.endpoints ?? []
+    }
+
+    return endpoints.map((endpoint) => {
+      const selectionRange = document.lineAt(
+        Math.max(0, Math.min(endpoint.decoratorLine - 1, document.lineCount - 1))
+      ).range
+      const range = new vscode.Range(
+        selectionRange.start,
+        document.lineAt(findEndpointEndLine(document, endpoint)).range.end
+      )
+
+      return new vscode.DocumentSymbol(
+        formatSymbolName(endpoint),
+        formatSymbolDetail(endpoint),
+        vscode.SymbolKind.Method,
+        range,
+        selectionRange
+      )
+    })
+  }
+}
+
+/**
+ * Finds routes across the workspace for "Go to Symbol in Workspace", e.g. `GET /users/{user_id}`
+ */
+export class WorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+  constructor(private diagnosticsManager: DiagnosticsManager) {}
+
+  async provideWorkspaceSymbols(
+    query: string,
+    token: vscode.CancellationToken
+  ): Promise<vscode.SymbolInformation[]> {
+    // Include files that were never opened
+    await this.diagnosticsManager.ensureWorkspaceAnalyzed()
+
+    if (token.isCancellationRequested) {
+      return []
+    }
+
+    // One symbol per full path, so each mount of a router can be searched for
+    const symbols: vscode.SymbolInformation[] = []
+    for (const endpoint of this.diagnosticsManager.getAllEndpoints()) {
+      for (const routePath of getEndpointPaths(endpoint)) {
+        const route = `${endpoint.method.toUpperCase()} ${routePath}`
+        if (!matchesQuery(query, route) && !matchesQuery(query, endpoint.functionName)) {
+          continue
+        }
+        symbols.push(
+          new vscode.SymbolInformation(
+            hasIssues(endpoint) ? `${route} ${ISSUE_MARKER}` : route,
+            vscode.SymbolKind.Method,
+            formatSymbolDetail(endpoint),
+            new vscode.Location(
+              vscode.Uri.file(endpoint.file),
+              new vscode.Position(endpoint.decoratorLine - 1, 0)
+            )
+          )
+        )
+      }
+    }
+    return symbols
+  }
+}
+
+/**
+ * Route symbol name, e.g. `GET /users/{user_id}`, marked when exceptions are undeclared
+ */
+function formatSymbolName(endpoint: EndpointInfo): string {
+  const name = formatRoute(endpoint)
+  return hasIssues(endpoint) ? `${name} ${ISSUE_MARKER}` : name
+}
+
+/**
+ * Function name, plus the number of undeclared exceptions when there are any
+ */
+function formatSymbolDetail(endpoint: EndpointInfo): string {
+  const undeclared = getUndeclaredExceptions(endpoint).length
+  return undeclared > 0
+    ? `${endpoint.functionName} · ${undeclared} undeclared`
+    : endpoint.functionName
+}
+
+/**
+ * Check if the characters of a query appear in order in a text, ignoring case and spaces
+ */
+function matchesQuery(query: string, text: string): boolean {
+  const needle = query.replace(/\s+/g, "").toLowerCase()
+  const haystack = text.toLowerCase()
+  let index = 0
+  for (const char of needle) {
+    index = haystack.indexOf(char, index)
+    if (index < 0) {
+      return false
+    }
+    index++
+  }
+  return true
+}
+
+/**
+ * Find the last line of the endpoint function: the line before the next top-level statement
+ */
+function findEndpointEndLine(document: vscode.TextDocument, endpoint: EndpointInfo): number {
+  const start = Math.max(0, Math.min(endpoint.decoratorLine - 1, document.lineCount - 1))
+  let end = start
+  let inFunction = false
+
+  for (let line = start + 1; line < document.lineCount; line++) {
+    const text = document.lineAt(line).text
+    if (text.trim() === "" || text.trimStart().startsWith("#")) {
+      continue
+    }
+    // Signatures may close at column 0, e.g. `) -> User:`
+    if (inFunction && /^[^\s)\]}]/.test(text)) {
+      break
+    }
+    if (/^\s*(async\s+)?def\s/.test(text)) {
+      inFunction = true
+    }
+    end = line
+  }
+
+  return end
+}
@@ -0,0 +1,95 @@
+import * as assert from "assert"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import * as vscode from "vscode"
+import { AnalysisCache, hashContent } from "../analyzer/cache"
+import { EndpointInfo } from "../types"
+
+const FILE = path.resolve("/workspace/app/routes.py")
+
+const endpoint: EndpointInfo = {
+  file: FILE,
+  line: 2,
+  column: 0,
+  functionName: "get_user",
+  method: "GET",
+  path: "/users/{user_id}",
+  router: "router",
+  decoratorLine: 1,
+  declaredExceptions: ["NotFound"],
+  detectedExceptions: [],
+}
+
+suite("Analysis cache", () => {
+  const content = hashContent("@router.get('/users/{user_id}')")
+  const context = hashContent("faex 0.4.0 --depth 3")
+
+  test("hashes content deterministically", () => {
+    assert.strictEqual(hashContent("a = 1"), hashContent("a = 1"))
+    assert.notStrictEqual(hashContent("a = 1"), hashContent("a = 2"))
+  })
+
+  test("returns a result stored for the same file, content and context", async () => {
+    const cache = new AnalysisCache()
+    await cache.set(FILE, content, context, [endpoint])
+
+    assert.deepStrictEqual(await cache.get(FILE, content, context), {
+      endpoints: [endpoint],
+      errors: [],
+    })
+  })
+
+  test("misses when the content changed", async () => {
+    const cache = new AnalysisCache()
+    await cache.set(FILE, content, context, [endpoint])
+
+    assert.strictEqual(await cache.get(FILE, hashContent("changed"), context), undefined)
+  })
+
+  test("misses when faex or its settings changed", async () => {
+    const cache = new AnalysisCache()
+    await cache.set(FILE, content, context, [endpoint])
+
+    assert.strictEqual(
+      await cache.get(FILE, content, hashContent("faex 0.4.0 --depth 5")),
+      undefined
+    )
+  })
+
+  test("keeps results of each file apart", async () => {
+    const cache = new AnalysisCache()
+    await cache.set(FILE, content, context, [endpoint])
+
+    assert.strictEqual(
+      await cache.get(path.resolve("/workspace/app/other.py"), content, context),
+      undefined
+    )
+  })
+
+  test("forgets deleted results", async () => {
+    const cache = new AnalysisCache()
+    await cache.set(FILE, content, context, [endpoint])
+    cache.delete(FILE)
+
+    assert.strictEqual(await cache.get(FILE, content, context), undefined)
+  })
+
+  test("reads results written by an earlier session", async () => {
+    const storage = fs.mkdtempSync(path.join(os.tmpdir(), "faex-cache-"))
+    try {
+      const storageUri = vscode.Uri.file(storage)
+      const first = new AnalysisCache(storageUri)
+      await first.set(FILE, content, context, [endpoint])
+      await first.flush()
+
+      const second = new AnalysisCache(storageUri)
+      assert.deepStrictEqual(await second.get(FILE, content, context), {
+        endpoints: [endpoint],
+        errors: [],
+      })
+    } finally {
+      fs.rmSync(storage, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,128 @@
+import * as assert from "assert"
+import * as path from "path"
+import { ClassHierarchy } from "../analyzer/classHierarchy"
+import { EndpointInfo, getRedundantDeclarations, getUndeclaredExceptions } from "../types"
+
+const ROOT = path.resolve("/workspace")
+
+function file(name: string): string {
+  return path.join(ROOT, name)
+}
+
+function createHierarchy(sources: Record<string, string>): ClassHierarchy {
+  const hierarchy = new ClassHierarchy((filePath) =>
+    filePath.startsWith(path.join(ROOT, "other")) ? path.join(ROOT, "other") : ROOT
+  )
+  for (const [name, text] of Object.entries(sources)) {
+    hierarchy.setSource(file(name), text)
+  }
+  return hierarchy
+}
+
+const ERRORS = [
+  "class DomainError(Exception):",
+  "    pass",
+  "",
+  "class NotFoundError(DomainError):",
+  "    pass",
+  "",
+  "class UserNotFound(NotFoundError, metaclass=ABCMeta):",
+  "    pass",
+].join("\n")
+
+suite("ClassHierarchy", () => {
+  test("lists base classes nearest first", () => {
+    const hierarchy = createHierarchy({ "app/errors.py": ERRORS })
+
+    assert.deepStrictEqual(hierarchy.getAncestors(file("app/errors.py"), "UserNotFound"), [
+      "NotFoundError",
+      "DomainError",
+      "Exception",
+    ])
+  })
+
+  test("resolves bases through imports", () => {
+    const hierarchy = createHierarchy({
+      "app/errors.py": ERRORS,
+      "app/users.py": [
+        "from app import errors",
+        "",
+        "class BannedUser(errors.UserNotFound):",
+        "    pass",
+      ].join("\n"),
+    })
+
+    assert.deepStrictEqual(hierarchy.getAncestors(file("app/users.py"), "BannedUser"), [
+      "UserNotFound",
+      "NotFoundError",
+      "DomainError",
+      "Exception",
+    ])
+  })
+
+  test("keeps same-named classes of other workspace folders apart", () => {
+    const hierarchy = createHierarchy({
+      "app/errors.py": ERRORS,
+      "other/errors.py": "class NotFoundError(LookupError):\n    pass",
+    })
+
+    assert.deepStrictEqual(hierarchy.getAncestors(file("other/api.py"), "NotFoundError"), [
+      "LookupError",
+    ])
+  })
+
+  test("covers raised subclasses with a declared base class", () => {
+    const hierarchy = createHierarchy({
+      "app/errors.py": ERRORS,
+      "app/routes.py": "from app.errors import DomainError, UserNotFound",
+    })
+    const raised = {
+      file: file("app/errors.py"),
+      line: 10,
+      column: 0,
+      exceptionClass: "UserNotFound",
+    }
+    const endpoint: EndpointInfo = hierarchy.resolve({
+      file: file("app/routes.py"),
+      line: 5,
+      column: 0,
+      functionName: "get_user",
+      method: "GET",
+      path: "/users/{user_id}",
+      decoratorLine: 5,
+      declaredExceptions: ["DomainError", "UserNotFound"],
+      detectedExceptions: [raised],
+      _undeclaredExceptions: [],
+    })
+
+    assert.deepStrictEqual(getUndeclaredExceptions(endpoint), [])
+    assert.deepStrictEqual(getRedundantDeclarations(endpoint), [
+      { exception: "UserNotFound", base: "DomainError" },
+    ])
+  })
+
+  test("prefers bases reported by faex", () => {
+    const hierarchy = createHierarchy({ "app/errors.py": ERRORS })
+    const endpoint = hierarchy.resolve({
+      file: file("app/routes.py"),
+      line: 1,
+      column: 0,
+      functionName: "handler",
+      method: "GET",
+      path: "/",
+      decoratorLine: 1,
+      declaredExceptions: ["UserNotFound"],
+      detectedExceptions: [],
+      exceptionBases: { UserNotFound: ["LookupError"] },
+    })
+
+    assert.deepStrictEqual(endpoint.exceptionAncestors, { UserNotFound: ["LookupError"] })
+  })
+
+  test("forgets classes of removed files", () => {
+    const hierarchy = createHierarchy({ "app/errors.py": ERRORS })
+    hierarchy.setSource(file("app/errors.py"), undefined)
+
+    assert.deepStrictEqual(hierarchy.getAncestors(file("app/errors.py"), "UserNotFound"), [])
+  })
+})
@@ -0,0 +1,79 @@
+import * as assert from "assert"
+import * as path from "path"
+import { FaexJsonOutput, isShadowFile, remapShadowPath, withoutShadowFiles } from "../analyzer/cli"
+
+const ROOT = path.resolve("/workspace")
+const FILE = path.join(ROOT, "app", "routes.py")
+const SHADOW = path.resolve("/tmp/.faex-shadow-abc123/routes.py")
+
+function output(file: string, raiseFile: string, errors: string[] = []): FaexJsonOutput {
+  return {
+    summary: { total_endpoints: 1, endpoints_with_issues: 1, total_undeclared: 1 },
+    endpoints: [
+      {
+        method: "GET",
+        path: "/users",
+        function: "list_users",
+        file,
+        line: 4,
+        declared_exceptions: [],
+        undeclared_exceptions: [
+          { class: "NotFound", file: raiseFile, line: 12, in_function: "load_user" },
+        ],
+      },
+    ],
+    errors,
+  }
+}
+
+suite("Shadow files", () => {
+  test("maps the shadow path back to the real file", () => {
+    const remapped = remapShadowPath(output(SHADOW, SHADOW), new Set([SHADOW]), FILE, ROOT)
+
+    assert.strictEqual(remapped.endpoints[0].file, FILE)
+    assert.strictEqual(remapped.endpoints[0].undeclared_exceptions[0].file, FILE)
+  })
+
+  test("keeps paths of other files", () => {
+    const helpers = path.join(ROOT, "app", "helpers.py")
+    const remapped = remapShadowPath(output(SHADOW, helpers), new Set([SHADOW]), FILE, ROOT)
+
+    assert.strictEqual(remapped.endpoints[0].undeclared_exceptions[0].file, helpers)
+  })
+
+  test("resolves relative paths from the working directory", () => {
+    const relative = path.relative(ROOT, SHADOW)
+    const remapped = remapShadowPath(output(relative, relative), new Set([SHADOW]), FILE, ROOT)
+
+    assert.strictEqual(remapped.endpoints[0].file, FILE)
+  })
+
+  test("maps the shadow path in error messages", () => {
+    const remapped = remapShadowPath(
+      output(SHADOW, SHADOW, [`SyntaxError in ${SHADOW}:3`]),
+      new Set([SHADOW]),
+      FILE,
+      ROOT
+    )
+
+    assert.deepStrictEqual(remapped.errors, [`SyntaxError in ${FILE}:3`])
+  })
+
+  test("recognizes shadow files and shadow directories", () => {
+    assert.ok(isShadowFile(SHADOW))
+    assert.ok(isShadowFile(path.join(ROOT, "app", ".faex-shadow-x1-routes.py")))
+    assert.ok(!isShadowFile(FILE))
+  })
+
+  test("drops endpoints found in shadow files", () => {
+    const result = withoutShadowFiles({
+      ...output(FILE, FILE),
+      endpoints: [...output(FILE, FILE).endpoints, ...output(SHADOW, SHADOW).endpoints],
+    })
+
+    assert.deepStrictEqual(
+      result.endpoints.map((endpoint) => endpoint.file),
+      [FILE]
+    )
+  })
+})
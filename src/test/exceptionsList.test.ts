@@ -0,0 +1,177 @@
+import * as assert from "assert"
+import * as vscode from "vscode"
+import { EndpointInfo } from "../types"
+import { findExceptionsListEntry, parseExceptionsList } from "../utils/exceptionsList"
+import { createSourceDocument } from "../utils/sourceDocument"
+
+const endpoint: EndpointInfo = {
+  file: "/workspace/app/routes.py",
+  line: 2,
+  column: 0,
+  functionName: "get_user",
+  method: "GET",
+  path: "/users/{user_id}",
+  router: "router",
+  decoratorLine: 1,
+  declaredExceptions: [],
+  detectedExceptions: [],
+}
+
+function parse(lines: string[]) {
+  const document = createSourceDocument(vscode.Uri.file(endpoint.file), lines.join("\n"))
+  return { document, list: parseExceptionsList(document, endpoint) }
+}
+
+/**
+ * Remove an entry the way the Quick Fix does and return the resulting lines
+ */
+function remove(lines: string[], exceptionClass: string): string[] {
+  const { document, list } = parse(lines)
+  const entry = list && findExceptionsListEntry(list, exceptionClass)
+  assert.ok(entry, `${exceptionClass} not found`)
+
+  const text = document.getText()
+  const start = document.offsetAt(entry.removeRange.start)
+  const end = document.offsetAt(entry.removeRange.end)
+  return (text.slice(0, start) + text.slice(end)).split("\n")
+}
+
+const MULTI_LINE = [
+  "@router.get(",
+  '    "/users/{user_id}",',
+  "    exceptions=[",
+  "        NotFound,  # missing user",
+  "        Forbidden,",
+  "        errors.Conflict,  # stale version",
+  "    ],",
+  ")",
+]
+
+suite("exceptions=[...] list", () => {
+  test("reads entries without comments", () => {
+    const { list } = parse(MULTI_LINE)
+
+    assert.deepStrictEqual(
+      list?.entries.map((entry) => entry.name),
+      ["NotFound", "Forbidden", "errors.Conflict"]
+    )
+    assert.strictEqual(list?.line, 3)
+  })
+
+  test("doesn't split entries on # or , inside strings", () => {
+    const { list } = parse([
+      '@router.get("/", exceptions=[NotFound, Error("a, b # c")])  # NotAnEntry',
+    ])
+
+    assert.deepStrictEqual(
+      list?.entries.map((entry) => entry.name),
+      ["NotFound", 'Error("a, b # c")']
+    )
+  })
+
+  test("ignores brackets and commas in comments", () => {
+    const { list } = parse([
+      "@router.get(",
+      '    "/",',
+      "    exceptions=[  # see [docs], section 2",
+      "        NotFound,",
+      "    ],",
+      ")",
+    ])
+
+    assert.deepStrictEqual(
+      list?.entries.map((entry) => entry.name),
+      ["NotFound"]
+    )
+  })
+
+  test("removes the only entry", () => {
+    assert.deepStrictEqual(remove(['@router.get("/", exceptions=[NotFound])'], "NotFound"), [
+      '@router.get("/", exceptions=[])',
+    ])
+  })
+
+  test("removes the only entry with a trailing comma", () => {
+    assert.deepStrictEqual(remove(['@router.get("/", exceptions=[NotFound,])'], "NotFound"), [
+      '@router.get("/", exceptions=[])',
+    ])
+  })
+
+  test("removes the first, middle and last entry of a single-line list", () => {
+    const line = '@router.get("/", exceptions=[NotFound, Forbidden, Conflict])'
+
+    assert.deepStrictEqual(remove([line], "NotFound"), [
+      '@router.get("/", exceptions=[Forbidden, Conflict])',
+    ])
+    assert.deepStrictEqual(remove([line], "Forbidden"), [
+      '@router.get("/", exceptions=[NotFound, Conflict])',
+    ])
+    assert.deepStrictEqual(remove([line], "Conflict"), [
+      '@router.get("/", exceptions=[NotFound, Forbidden])',
+    ])
+  })
+
+  test("removes the last entry of a single-line list with a trailing comma", () => {
+    assert.deepStrictEqual(
+      remove(['@router.get("/", exceptions=[NotFound, Forbidden,])'], "Forbidden"),
+      ['@router.get("/", exceptions=[NotFound,])']
+    )
+  })
+
+  test("removes the first entry of a multi-line list with its comment", () => {
+    assert.deepStrictEqual(remove(MULTI_LINE, "NotFound"), [
+      "@router.get(",
+      '    "/users/{user_id}",',
+      "    exceptions=[",
+      "        Forbidden,",
+      "        errors.Conflict,  # stale version",
+      "    ],",
+      ")",
+    ])
+  })
+
+  test("removes a middle entry of a multi-line list", () => {
+    assert.deepStrictEqual(remove(MULTI_LINE, "Forbidden"), [
+      "@router.get(",
+      '    "/users/{user_id}",',
+      "    exceptions=[",
+      "        NotFound,  # missing user",
+      "        errors.Conflict,  # stale version",
+      "    ],",
+      ")",
+    ])
+  })
+
+  test("removes the last entry of a multi-line list with its comment", () => {
+    assert.deepStrictEqual(remove(MULTI_LINE, "Conflict"), [
+      "@router.get(",
+      '    "/users/{user_id}",',
+      "    exceptions=[",
+      "        NotFound,  # missing user",
+      "        Forbidden,",
+      "    ],",
+      ")",
+    ])
+  })
+
+  test("removes the last entry of a multi-line list without a trailing comma", () => {
+    const lines = [
+      "@router.get(",
+      '    "/",',
+      "    exceptions=[",
+      "        NotFound,",
+      "        Forbidden",
+      "    ],",
+      ")",
+    ]
+
+    assert.deepStrictEqual(remove(lines, "Forbidden"), [
+      "@router.get(",
+      '    "/",',
+      "    exceptions=[",
+      "        NotFound,",
+      "    ],",
+      ")",
+    ])
+  })
+})
@@ -0,0 +1,98 @@
+import * as assert from "assert"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import * as vscode from "vscode"
+import { getConfig } from "../utils/config"
+import { parseTable } from "../utils/pyproject"
+
+suite("pyproject.toml parser", () => {
+  test("reads strings, integers, booleans and arrays of one table", () => {
+    const text = [
+      "[project]",
+      'name = "api"',
+      "",
+      "[tool.faex]",
+      "depth = 5",
+      "strict = true",
+      "ignore = [\"HTTPException\", 'ValidationError']",
+      'mode = "fast"',
+      "",
+      "[tool.ruff]",
+      "line-length = 100",
+    ].join("\n")
+
+    assert.deepStrictEqual(parseTable(text, "tool.faex"), {
+      depth: 5,
+      strict: true,
+      ignore: ["HTTPException", "ValidationError"],
+      mode: "fast",
+    })
+  })
+
+  test("reads multi-line arrays with comments and trailing commas", () => {
+    const text = [
+      "[tool.faex]",
+      "exclude = [",
+      '  "tests/**",  # test code',
+      '  "migrations/**",',
+      "]",
+      "depth = 1_0",
+    ].join("\n")
+
+    assert.deepStrictEqual(parseTable(text, "tool.faex"), {
+      exclude: ["tests/**", "migrations/**"],
+      depth: 10,
+    })
+  })
+
+  test("keeps # inside strings", () => {
+    const text = ["[tool.faex]", 'ignore = ["Error#1"]  # comment'].join("\n")
+
+    assert.deepStrictEqual(parseTable(text, "tool.faex"), { ignore: ["Error#1"] })
+  })
+
+  test("returns undefined without the table", () => {
+    assert.strictEqual(parseTable("[tool.black]\nline-length = 100", "tool.faex"), undefined)
+  })
+
+  test("doesn't read nested tables as the table", () => {
+    const text = ["[tool.faex.server]", "depth = 2", "[tool.faex]", "depth = 3"].join("\n")
+
+    assert.deepStrictEqual(parseTable(text, "tool.faex"), { depth: 3 })
+  })
+})
+
+suite("pyproject.toml lookup", () => {
+  let root: string
+
+  suiteSetup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "faex-pyproject-"))
+    fs.mkdirSync(path.join(root, "services", "billing", "api"), { recursive: true })
+    fs.writeFileSync(path.join(root, "pyproject.toml"), '[tool.faex]\ndepth = 2\nignore = ["A"]\n')
+    fs.writeFileSync(
+      path.join(root, "services", "billing", "pyproject.toml"),
+      '[tool.faex]\ndepth = 7\nignore = ["B"]\n'
+    )
+  })
+
+  suiteTeardown(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  test("uses the pyproject.toml nearest to the analyzed file", () => {
+    const config = getConfig(
+      vscode.Uri.file(path.join(root, "services", "billing", "api", "app.py"))
+    )
+
+    assert.strictEqual(config.depth, 7)
+    assert.deepStrictEqual(config.ignore, ["B"])
+  })
+
+  test("falls back to an outer pyproject.toml for files outside the nested project", () => {
+    const config = getConfig(vscode.Uri.file(path.join(root, "services", "main.py")))
+
+    assert.strictEqual(config.depth, 2)
+    assert.deepStrictEqual(config.ignore, ["A"])
+  })
+})
@@ -0,0 +1,197 @@
+import * as assert from "assert"
+import * as path from "path"
+import { RouteIndex } from "../analyzer/routes"
+import { findRouteConflicts } from "../analyzer/routeConflicts"
+import { EndpointInfo } from "../types"
+
+const ROOT = path.resolve("/workspace")
+
+function file(name: string): string {
+  return path.join(ROOT, name)
+}
+
+function endpoint(overrides: Partial<EndpointInfo>): EndpointInfo {
+  return {
+    file: file("app/routers/users.py"),
+    line: 1,
+    column: 0,
+    functionName: "handler",
+    method: "GET",
+    path: "/",
+    router: "router",
+    decoratorLine: 1,
+    declaredExceptions: [],
+    detectedExceptions: [],
+    ...overrides,
+  }
+}
+
+function createIndex(sources: Record<string, string>): RouteIndex {
+  const index = new RouteIndex(() => ROOT)
+  for (const [name, text] of Object.entries(sources)) {
+    index.setSource(file(name), text)
+  }
+  return index
+}
+
+suite("RouteIndex", () => {
+  test("prepends router and include_router prefixes", () => {
+    const index = createIndex({
+      "app/main.py": [
+        "from fastapi import FastAPI",
+        "from app.routers import users",
+        "app = FastAPI()",
+        'app.include_router(users.router, prefix="/v1")',
+      ].join("\n"),
+      "app/routers/__init__.py": "",
+      "app/routers/users.py": 'router = APIRouter(prefix="/users")',
+    })
+
+    const resolved = index.resolve(endpoint({ path: "/{user_id}" }))
+
+    assert.deepStrictEqual(
+      resolved.mounts?.map((mount) => mount.path),
+      ["/v1/users/{user_id}"]
+    )
+  })
+
+  test("follows nested routers and relative imports", () => {
+    const index = createIndex({
+      "app/main.py": [
+        "from fastapi import FastAPI",
+        "from .api import api_router",
+        "app = FastAPI()",
+        'app.include_router(api_router, prefix="/api")',
+      ].join("\n"),
+      "app/api.py": [
+        "from fastapi import APIRouter",
+        "from .routers.users import router as users_router",
+        "api_router = APIRouter()",
+        'api_router.include_router(users_router, prefix="/users")',
+      ].join("\n"),
+      "app/routers/users.py": "router = APIRouter()",
+    })
+
+    const resolved = index.resolve(endpoint({ path: "/me" }))
+
+    assert.deepStrictEqual(
+      resolved.mounts?.map((mount) => mount.path),
+      ["/api/users/me"]
+    )
+  })
+
+  test("returns one path per mount", () => {
+    const index = createIndex({
+      "app/main.py": [
+        "from app.routers.users import router",
+        "app = FastAPI()",
+        'app.include_router(router, prefix="/v1")',
+        'app.include_router(router, prefix="/v2")',
+      ].join("\n"),
+      "app/routers/users.py": 'router = APIRouter(prefix="/users")',
+    })
+
+    const resolved = index.resolve(endpoint({ path: "" }))
+
+    assert.deepStrictEqual(
+      resolved.mounts?.map((mount) => mount.path),
+      ["/v1/users", "/v2/users"]
+    )
+  })
+
+  test("leaves mounts unset when a prefix isn't a literal", () => {
+    const index = createIndex({
+      "app/main.py": [
+        "from app.routers.users import router",
+        "app = FastAPI()",
+        "app.include_router(router, prefix=settings.API_PREFIX)",
+      ].join("\n"),
+      "app/routers/users.py": "router = APIRouter()",
+    })
+
+    assert.strictEqual(index.resolve(endpoint({ path: "/me" })).mounts, undefined)
+  })
+
+  test("ignores commented-out include_router calls", () => {
+    const index = createIndex({
+      "app/main.py": [
+        "from app.routers.users import router",
+        "app = FastAPI()",
+        '# app.include_router(router, prefix="/old")',
+        'app.include_router(router, prefix="/new")',
+      ].join("\n"),
+      "app/routers/users.py": "router = APIRouter()",
+    })
+
+    assert.deepStrictEqual(
+      index.resolve(endpoint({ path: "/me" })).mounts?.map((mount) => mount.path),
+      ["/new/me"]
+    )
+  })
+})
+
+suite("findRouteConflicts", () => {
+  const app = `${file("app/main.py")}#app`
+
+  test("reports routes registered twice in one application", () => {
+    const first = endpoint({
+      functionName: "get_user",
+      path: "/{user_id}",
+      mounts: [{ path: "/users/{user_id}", app }],
+    })
+    const second = endpoint({
+      file: file("app/routers/admin.py"),
+      functionName: "get_account",
+      path: "/users/{account_id}",
+      mounts: [{ path: "/users/{account_id}", app }],
+    })
+
+    const conflicts = findRouteConflicts([first, second])
+
+    assert.deepStrictEqual(
+      conflicts.map((conflict) => [conflict.kind, conflict.endpoint.functionName]),
+      [
+        ["duplicate", "get_user"],
+        ["duplicate", "get_account"],
+      ]
+    )
+  })
+
+  test("keeps workspace folders and applications apart", () => {
+    const health = (folder: string) =>
+      endpoint({
+        file: path.join(ROOT, folder, "main.py"),
+        workspaceFolder: folder,
+        path: "/health",
+        mounts: [{ path: "/health", app: `${path.join(ROOT, folder, "main.py")}#app` }],
+      })
+
+    assert.deepStrictEqual(findRouteConflicts([health("orders"), health("billing")]), [])
+  })
+
+  test("doesn't compare unresolved routers of different files", () => {
+    const root = (name: string) => endpoint({ file: file(`app/routers/${name}.py`), path: "/" })
+
+    assert.deepStrictEqual(findRouteConflicts([root("users"), root("orders")]), [])
+  })
+
+  test("reports routes shadowed by an earlier route of the same router", () => {
+    const byId = endpoint({ functionName: "get_user", path: "/users/{user_id}", decoratorLine: 3 })
+    const me = endpoint({ functionName: "get_me", path: "/users/me", decoratorLine: 8 })
+
+    const conflicts = findRouteConflicts([byId, me])
+
+    assert.strictEqual(conflicts.length, 1)
+    assert.strictEqual(conflicts[0].kind, "shadowed")
+    assert.strictEqual(conflicts[0].endpoint, me)
+    assert.strictEqual(conflicts[0].others[0].endpoint, byId)
+  })
+
+  test("doesn't report routes that differ by method or convertor", () => {
+    const byId = endpoint({ path: "/items/{item_id:int}", decoratorLine: 3 })
+    const post = endpoint({ method: "POST", path: "/items/new", decoratorLine: 8 })
+    const named = endpoint({ path: "/items/new", decoratorLine: 13 })
+
+    assert.deepStrictEqual(findRouteConflicts([byId, post, named]), [])
+  })
+})
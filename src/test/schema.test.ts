@@ -0,0 +1,102 @@
+import * as assert from "assert"
+import {
+  FaexSchemaError,
+  LATEST_SCHEMA_VERSION,
+  checkFaexVersion,
+  parseFaexOutput,
+  parseVersion,
+  validateFaexOutput,
+} from "../analyzer/schema"
+
+const ENDPOINT = {
+  file: "/workspace/app/users.py",
+  line: 12,
+  function: "get_user",
+  method: "GET",
+  path: "/users/{user_id}",
+  declared_exceptions: ["NotFoundError"],
+  undeclared_exceptions: [
+    { class: "PermissionError", file: "/workspace/app/auth.py", line: 4, in_function: "check" },
+  ],
+}
+
+suite("faex version gating", () => {
+  test("reads the version from --version output", () => {
+    assert.strictEqual(parseVersion("faex 0.3.1"), "0.3.1")
+    assert.strictEqual(parseVersion("faex 0.4 (stub)"), "0.4")
+    assert.strictEqual(parseVersion("faex"), undefined)
+  })
+
+  test("refuses versions below the minimum", () => {
+    const check = checkFaexVersion("faex 0.0.9")
+
+    assert.strictEqual(check.compatible, false)
+    assert.match(check.message ?? "", /too old/)
+  })
+
+  test("accepts supported versions without a message", () => {
+    assert.deepStrictEqual(checkFaexVersion("faex 0.3.1"), { compatible: true })
+  })
+
+  test("accepts newer versions with a warning", () => {
+    const check = checkFaexVersion("faex 1.2.0")
+
+    assert.strictEqual(check.compatible, true)
+    assert.match(check.message ?? "", /newer than this extension was tested with/)
+  })
+
+  test("leaves unreadable versions to schema validation", () => {
+    assert.deepStrictEqual(checkFaexVersion("unknown"), { compatible: true })
+  })
+})
+
+suite("faex output schema", () => {
+  test("fills in fields older output doesn't have", () => {
+    const output = validateFaexOutput({ endpoints: [ENDPOINT] })
+
+    assert.deepStrictEqual(output.errors, [])
+    assert.deepStrictEqual(output.summary, {
+      total_endpoints: 1,
+      endpoints_with_issues: 1,
+      total_undeclared: 1,
+    })
+    assert.strictEqual(output.endpoints[0].detected_exceptions, undefined)
+  })
+
+  test("keeps detected exceptions and exception bases", () => {
+    const output = validateFaexOutput({
+      schema_version: 1,
+      endpoints: [
+        {
+          ...ENDPOINT,
+          detected_exceptions: ENDPOINT.undeclared_exceptions,
+          exception_bases: { PermissionError: ["OSError", "Exception"] },
+        },
+      ],
+      errors: [],
+    })
+
+    assert.deepStrictEqual(output.endpoints[0].detected_exceptions, ENDPOINT.undeclared_exceptions)
+    assert.deepStrictEqual(output.endpoints[0].exception_bases, {
+      PermissionError: ["OSError", "Exception"],
+    })
+  })
+
+  test("refuses newer schema versions", () => {
+    assert.throws(
+      () => validateFaexOutput({ schema_version: LATEST_SCHEMA_VERSION + 1, endpoints: [] }),
+      (error: unknown) => error instanceof FaexSchemaError && error.path === "schema_version"
+    )
+  })
+
+  test("names the location of invalid values", () => {
+    assert.throws(
+      () => validateFaexOutput({ endpoints: [ENDPOINT, { ...ENDPOINT, line: "12" }] }),
+      (error: unknown) => error instanceof FaexSchemaError && error.path === "endpoints[1].line"
+    )
+  })
+
+  test("reports output that isn't JSON", () => {
+    assert.throws(() => parseFaexOutput("Traceback (most recent call last):"), FaexSchemaError)
+  })
+})
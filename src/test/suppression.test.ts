@@ -0,0 +1,99 @@
+import * as assert from "assert"
+import { EndpointInfo } from "../types"
+import {
+  SuppressionIndex,
+  findRaiseSiteSuppression,
+  findSuppression,
+  parseSuppressionLines,
+  suppressionCovers,
+} from "../utils/suppression"
+
+const ENDPOINT: EndpointInfo = {
+  file: "/workspace/app/users.py",
+  line: 3,
+  column: 0,
+  functionName: "get_user",
+  method: "GET",
+  path: "/users/{user_id}",
+  decoratorLine: 3,
+  declaredExceptions: [],
+  detectedExceptions: [],
+}
+
+suite("Suppression comments", () => {
+  test("reads the suppressed classes and where the comment is", () => {
+    const suppressions = parseSuppressionLines([
+      "# faex: ignore",
+      '@router.get("/users/{user_id}")',
+      "    raise NotFound()  #faex:ignore[NotFound, errors.Gone ]",
+    ])
+
+    assert.deepStrictEqual(
+      suppressions.map((s) => [s.line, s.classes, s.standalone, s.range.start.character]),
+      [
+        [0, undefined, true, 0],
+        [2, ["NotFound", "errors.Gone"], false, 22],
+      ]
+    )
+  })
+
+  test("skips # faex: ignore inside strings", () => {
+    const suppressions = parseSuppressionLines([
+      'message = "# faex: ignore"',
+      "text = '''",
+      "# faex: ignore",
+      "'''",
+      'raise Error("#")  # faex: ignore[Error]',
+    ])
+
+    assert.deepStrictEqual(
+      suppressions.map((s) => s.line),
+      [4]
+    )
+  })
+
+  test("matches classes by their last segment", () => {
+    const [suppression] = parseSuppressionLines(["# faex: ignore[errors.NotFound]"])
+
+    assert.strictEqual(suppressionCovers(suppression, "NotFound"), true)
+    assert.strictEqual(suppressionCovers(suppression, "Gone"), false)
+  })
+
+  test("applies to the finding line and the endpoint", () => {
+    const suppressions = parseSuppressionLines([
+      "# faex: ignore[Gone]",
+      "",
+      '@router.get("/users/{user_id}")  # faex: ignore[Conflict]',
+      "async def get_user(user_id: int):",
+      "    raise NotFound()  # faex: ignore[NotFound]",
+    ])
+
+    assert.strictEqual(findSuppression(suppressions, ENDPOINT, 4, "NotFound")?.line, 4)
+    assert.strictEqual(findSuppression(suppressions, ENDPOINT, 4, "Conflict")?.line, 2)
+    // Not directly above the decorator
+    assert.strictEqual(findSuppression(suppressions, ENDPOINT, 4, "Gone"), undefined)
+  })
+
+  test("applies on the raise site in another module", () => {
+    const index = new SuppressionIndex()
+    index.setSource(
+      "/workspace/app/services.py",
+      ["def load(user_id):", "    raise NotFound()  # faex: ignore[NotFound]"].join("\n")
+    )
+    const site = {
+      file: "/workspace/app/services.py",
+      line: 2,
+      column: 0,
+      exceptionClass: "NotFound",
+    }
+
+    assert.strictEqual(findRaiseSiteSuppression(index.get(site.file), site)?.line, 1)
+    assert.strictEqual(
+      findRaiseSiteSuppression(index.get(site.file), { ...site, exceptionClass: "Gone" }),
+      undefined
+    )
+
+    index.setSource(site.file, undefined)
+    assert.deepStrictEqual(index.get(site.file), [])
+  })
+})
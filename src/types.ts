@@ -19,12 +19,24 @@ export interface ExceptionLocation {
   inFunction?: string
 }
 
+/**
+ * A full path an endpoint is served at
+ */
+export interface RouteMount {
+  /** Full path, e.g. `/v1/users/{user_id}` */
+  path: string
+  /** Application serving the path, as `file#variable` */
+  app: string
+}
+
 /**
  * Represents a FastAPI endpoint with its exception information
  */
 export interface EndpointInfo {
   /** File path containing the endpoint */
   file: string
+  /** Name of the workspace folder containing the endpoint */
+  workspaceFolder?: string
   /** Line number where the endpoint is defined */
   line: number
   /** Column offset */
@@ -33,37 +45,125 @@ export interface EndpointInfo {
   functionName: string
   /** HTTP method (GET, POST, PUT, DELETE, etc.) */
   method: string
-  /** URL path */
+  /** URL path as written in the decorator */
   path: string
+  /** Router object of the decorator, e.g. `router` or `users.router` */
+  router?: string
+  /**
+   * Full paths the endpoint is served at, through `APIRouter(prefix=...)` and
+   * `include_router` chains; unset when the mount can't be resolved
+   */
+  mounts?: RouteMount[]
   /** Line number where the decorator starts */
   decoratorLine: number
   /** Line number where exceptions parameter is (if exists) */
   exceptionsLine?: number
   /** Exception classes declared in the decorator */
   declaredExceptions: string[]
-  /** Exception locations detected in the function (from TypeScript parser) */
+  /** Exception locations detected in the function */
   detectedExceptions: ExceptionLocation[]
+  /** False when detectedExceptions only covers undeclared exceptions (older faex output) */
+  detectionComplete?: boolean
   /** Undeclared exceptions from faex CLI */
   _undeclaredExceptions?: ExceptionLocation[]
+  /** Base classes of the exceptions as reported by faex, nearest first (newer faex versions) */
+  exceptionBases?: Record<string, string[]>
+  /**
+   * Base classes of the declared and detected exceptions, nearest first, from faex or
+   * the workspace's class definitions; keyed by class name without module
+   */
+  exceptionAncestors?: Record<string, string[]>
+}
+
+/**
+ * A declared exception whose base class is declared too
+ */
+export interface RedundantDeclaration {
+  /** Declared subclass, as written in the decorator */
+  exception: string
+  /** Declared base class that already covers it */
+  base: string
+}
+
+/**
+ * Check if an exception class is a declared class or inherits from it
+ * Dotted names such as `errors.DomainError` are compared by their last segment
+ */
+export function isCoveredBy(
+  endpoint: EndpointInfo,
+  exceptionClass: string,
+  declaredName: string
+): boolean {
+  const name = declaredName.split(".").pop() as string
+  const cls = exceptionClass.split(".").pop() as string
+  return cls === name || (endpoint.exceptionAncestors?.[cls]?.includes(name) ?? false)
+}
+
+/**
+ * Check if an exception is covered by any declaration of the endpoint
+ */
+export function isDeclared(endpoint: EndpointInfo, exceptionClass: string): boolean {
+  return endpoint.declaredExceptions.some((declared) =>
+    isCoveredBy(endpoint, exceptionClass, declared)
+  )
 }
 
 /**
  * Get undeclared exceptions from endpoint
- * Uses _undeclaredExceptions from CLI or computes from detected vs declared
+ * Uses _undeclaredExceptions from CLI or computes from detected vs declared;
+ * exceptions whose base class is declared are covered
  */
 export function getUndeclaredExceptions(endpoint: EndpointInfo): ExceptionLocation[] {
-  // If we have undeclared exceptions from CLI, use those
-  if (endpoint._undeclaredExceptions) {
-    return endpoint._undeclaredExceptions
-  }
-  // Fallback to computing from declared vs detected
-  const declaredSet = new Set(endpoint.declaredExceptions)
-  return endpoint.detectedExceptions.filter((exc) => !declaredSet.has(exc.exceptionClass))
+  const candidates = endpoint._undeclaredExceptions ?? endpoint.detectedExceptions
+  return candidates.filter((exc) => !isDeclared(endpoint, exc.exceptionClass))
 }
 
+/**
+ * Get declared exceptions that the endpoint never raises
+ * Returns nothing when the full set of detected exceptions is unknown
+ */
 export function getUnusedDeclarations(endpoint: EndpointInfo): string[] {
-  const detectedSet = new Set(endpoint.detectedExceptions.map((exc) => exc.exceptionClass))
-  return endpoint.declaredExceptions.filter((exc) => !detectedSet.has(exc))
+  if (endpoint.detectionComplete === false) {
+    return []
+  }
+  return endpoint.declaredExceptions.filter(
+    (declared) =>
+      !endpoint.detectedExceptions.some((exc) =>
+        isCoveredBy(endpoint, exc.exceptionClass, declared)
+      )
+  )
+}
+
+/**
+ * Get declared exceptions that another declared base class already covers
+ */
+export function getRedundantDeclarations(endpoint: EndpointInfo): RedundantDeclaration[] {
+  const redundant: RedundantDeclaration[] = []
+  for (const exception of endpoint.declaredExceptions) {
+    const base = endpoint.declaredExceptions.find(
+      (other) =>
+        other.split(".").pop() !== exception.split(".").pop() &&
+        isCoveredBy(endpoint, exception, other)
+    )
+    if (base) {
+      redundant.push({ exception, base })
+    }
+  }
+  return redundant
+}
+
+/**
+ * Get the full paths of an endpoint, or the decorator path when the mount is unknown
+ */
+export function getEndpointPaths(endpoint: EndpointInfo): string[] {
+  return endpoint.mounts?.length ? endpoint.mounts.map((mount) => mount.path) : [endpoint.path]
+}
+
+/**
+ * Format an endpoint's method and full paths, e.g. `GET /v1/users/{user_id}`
+ */
+export function formatRoute(endpoint: EndpointInfo): string {
+  return `${endpoint.method.toUpperCase()} ${getEndpointPaths(endpoint).join(", ")}`
 }
 
 export function hasIssues(endpoint: EndpointInfo): boolean {
@@ -90,6 +190,13 @@ export interface AnalysisError {
   line?: number
   /** Error message */
   message: string
+  /**
+   * Error kind: "timeout" or "failed" when the run produced no result,
+   * "faex" for errors faex reported for a file
+   */
+  code?: string
+  /** Raw faex output, shown by "Show Details" */
+  details?: string
 }
 
 /**
@@ -1,4 +1,5 @@
 import * as vscode from "vscode"
+import { PyprojectSettings, getPyprojectSettings, watchPyproject } from "./pyproject"
 
 /**
  * Configuration interface for faex extension
@@ -7,28 +8,117 @@ export interface FaexConfig {
   enable: boolean
   faexPath: string
   depth: number
+  /** Seconds before a faex run is killed (0 disables the limit) */
+  timeout: number
   ignore: string[]
   exclude: string[]
   validateOnSave: boolean
   validateOnType: boolean
   showCodeLens: boolean
+  /** Keep a faex server running instead of starting faex for every check */
+  useServer: boolean
+  /** Severity per diagnostic code */
+  severity: Record<string, SeverityLevel>
+}
+
+/**
+ * Severity of a faex rule; "off" hides its diagnostics
+ */
+export type SeverityLevel = "error" | "warning" | "information" | "hint" | "off"
+
+/**
+ * Severity of each diagnostic code when `faex.severity` doesn't set it
+ */
+export const DEFAULT_SEVERITY: Record<string, SeverityLevel> = {
+  "undeclared-exception": "warning",
+  "transitive-exception": "warning",
+  "unused-exception": "information",
+  "redundant-exception": "hint",
+  "propagated-exception": "information",
+  "unused-suppression": "hint",
+  "analysis-error": "warning",
+  "duplicate-route": "warning",
+  "shadowed-route": "warning",
+}
+
+/**
+ * Where an effective configuration value came from, lowest precedence first:
+ * default < user settings < pyproject.toml < workspace settings < folder settings
+ */
+export type ConfigSource =
+  | "default"
+  | "user settings"
+  | "pyproject.toml"
+  | "workspace settings"
+  | "folder settings"
+
+/**
+ * Effective configuration together with the source of each value
+ */
+export interface ResolvedConfig {
+  config: FaexConfig
+  sources: Record<keyof FaexConfig, ConfigSource>
+  /** pyproject.toml that contributed `[tool.faex]` settings, if any */
+  pyprojectFile?: string
 }
 
 /**
  * Get the current configuration for faex
+ * Pass a resource URI to read folder-level settings and the nearest pyproject.toml
  */
-export function getConfig(): FaexConfig {
-  const config = vscode.workspace.getConfiguration("faex")
+export function getConfig(uri?: vscode.Uri): FaexConfig {
+  return resolveConfig(uri).config
+}
+
+/**
+ * Merge VS Code settings with `[tool.faex]` from the nearest pyproject.toml
+ */
+export function resolveConfig(uri?: vscode.Uri): ResolvedConfig {
+  const config = vscode.workspace.getConfiguration("faex", uri)
+  const pyproject = getPyprojectSettings(uri)
+  const sources = {} as Record<keyof FaexConfig, ConfigSource>
+
+  const read = <K extends keyof FaexConfig>(key: K, defaultValue: FaexConfig[K]): FaexConfig[K] => {
+    const inspected = config.inspect<FaexConfig[K]>(key)
+    const fromPyproject =
+      pyproject && key in pyproject
+        ? (pyproject[key as keyof PyprojectSettings] as FaexConfig[K] | undefined)
+        : undefined
+
+    const layers: [ConfigSource, FaexConfig[K] | undefined][] = [
+      ["folder settings", inspected?.workspaceFolderValue],
+      ["workspace settings", inspected?.workspaceValue],
+      ["pyproject.toml", fromPyproject],
+      ["user settings", inspected?.globalValue],
+    ]
+
+    for (const [source, value] of layers) {
+      if (value !== undefined) {
+        sources[key] = source
+        return value
+      }
+    }
+
+    sources[key] = "default"
+    return inspected?.defaultValue ?? defaultValue
+  }
 
   return {
-    enable: config.get<boolean>("enable", true),
-    faexPath: config.get<string>("faexPath", "faex"),
-    depth: config.get<number>("depth", 3),
-    ignore: config.get<string[]>("ignore", []),
-    exclude: config.get<string[]>("exclude", ["**/tests/**", "**/test_*.py"]),
-    validateOnSave: config.get<boolean>("validateOnSave", true),
-    validateOnType: config.get<boolean>("validateOnType", false),
-    showCodeLens: config.get<boolean>("showCodeLens", true),
+    config: {
+      enable: read("enable", true),
+      faexPath: read("faexPath", "faex"),
+      depth: read("depth", 3),
+      timeout: read("timeout", 60),
+      ignore: read("ignore", []),
+      exclude: read("exclude", ["**/tests/**", "**/test_*.py"]),
+      validateOnSave: read("validateOnSave", true),
+      validateOnType: read("validateOnType", false),
+      showCodeLens: read("showCodeLens", true),
+      useServer: read("useServer", true),
+      severity: { ...DEFAULT_SEVERITY, ...read("severity", {}) },
+    },
+    sources,
+    pyprojectFile: pyproject?.file,
   }
 }
 
@@ -36,7 +126,8 @@ export function getConfig(): FaexConfig {
  * Check if a file should be excluded from analysis
  */
 export function shouldExcludeFile(filePath: string, config: FaexConfig): boolean {
-  const relativePath = vscode.workspace.asRelativePath(filePath)
+  // Patterns are relative to the file's own workspace folder
+  const relativePath = vscode.workspace.asRelativePath(filePath, false)
 
   for (const pattern of config.exclude) {
     if (matchGlobPattern(relativePath, pattern)) {
@@ -54,6 +145,27 @@ export function shouldIgnoreException(exceptionClass: string, config: FaexConfig
   return config.ignore.includes(exceptionClass)
 }
 
+/**
+ * Get the configured severity of a diagnostic code, or undefined when it is off
+ */
+export function getDiagnosticSeverity(
+  code: string,
+  config: FaexConfig
+): vscode.DiagnosticSeverity | undefined {
+  switch (config.severity[code] ?? DEFAULT_SEVERITY[code]) {
+    case "error":
+      return vscode.DiagnosticSeverity.Error
+    case "information":
+      return vscode.DiagnosticSeverity.Information
+    case "hint":
+      return vscode.DiagnosticSeverity.Hint
+    case "off":
+      return undefined
+    default:
+      return vscode.DiagnosticSeverity.Warning
+  }
+}
+
 /**
  * Simple glob pattern matching
  * Supports * and ** patterns
@@ -71,12 +183,33 @@ function matchGlobPattern(path: string, pattern: string): boolean {
 }
 
 /**
- * Listen for configuration changes
+ * Get the workspace folder containing a file, falling back to the first folder
+ */
+export function getWorkspaceFolder(filePath: string): vscode.WorkspaceFolder | undefined {
+  return (
+    vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath)) ??
+    vscode.workspace.workspaceFolders?.[0]
+  )
+}
+
+/**
+ * Check if more than one workspace folder is open
+ */
+export function isMultiRoot(): boolean {
+  return (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+}
+
+/**
+ * Listen for configuration changes, including pyproject.toml edits
  */
 export function onConfigChange(callback: (config: FaexConfig) => void): vscode.Disposable {
-  return vscode.workspace.onDidChangeConfiguration((e) => {
-    if (e.affectsConfiguration("faex")) {
-      callback(getConfig())
-    }
-  })
+  return vscode.Disposable.from(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("faex")) {
+        callback(getConfig())
+      }
+    }),
+    // [tool.faex] in pyproject.toml is part of the configuration too
+    watchPyproject(() => callback(getConfig()))
+  )
 }
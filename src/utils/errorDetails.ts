@@ -0,0 +1,27 @@
+import * as vscode from "vscode"
+import { AnalysisError } from "../types"
+
+/**
+ * Show an analysis error as a notification with a "Show Details" action
+ */
+export async function notifyAnalysisError(error: AnalysisError): Promise<void> {
+  const choice = await vscode.window.showErrorMessage(
+    `faex: ${error.message}`,
+    ...(error.details ? ["Show Details"] : [])
+  )
+  if (choice === "Show Details") {
+    await showErrorDetails(error)
+  }
+}
+
+/**
+ * Open the raw faex output of an analysis error in an editor
+ */
+export async function showErrorDetails(error: AnalysisError): Promise<void> {
+  const location = error.line !== undefined ? `${error.file}:${error.line}` : error.file
+  const document = await vscode.workspace.openTextDocument({
+    language: "log",
+    content: [`faex: ${error.message}`, `at ${location}`, "", error.details ?? ""].join("\n"),
+  })
+  await vscode.window.showTextDocument(document, { preview: true })
+}
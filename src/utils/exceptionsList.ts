@@ -0,0 +1,228 @@
+import * as vscode from "vscode"
+import { EndpointInfo } from "../types"
+import { SourceDocument } from "./sourceDocument"
+
+/**
+ * A single entry inside an `exceptions=[...]` list
+ */
+export interface ExceptionsListEntry {
+  /** Entry text, e.g. `NotFoundException` or `errors.NotFoundException` */
+  name: string
+  /** Range of the entry text */
+  range: vscode.Range
+  /** Range to delete when removing the entry, including its separator */
+  removeRange: vscode.Range
+}
+
+/**
+ * Parsed `exceptions=[...]` parameter of an endpoint decorator
+ */
+export interface ExceptionsList {
+  /** Line of the `exceptions` keyword (1-indexed) */
+  line: number
+  /** Range between the brackets (exclusive) */
+  innerRange: vscode.Range
+  entries: ExceptionsListEntry[]
+}
+
+/** Maximum number of lines scanned below the decorator */
+const MAX_DECORATOR_LINES = 50
+
+/**
+ * Locate and parse the `exceptions=[...]` parameter of an endpoint decorator
+ */
+export function parseExceptionsList(
+  document: SourceDocument,
+  endpoint: EndpointInfo
+): ExceptionsList | undefined {
+  const startLine = Math.max(0, endpoint.decoratorLine - 1)
+  const endLine = Math.min(document.lineCount, startLine + MAX_DECORATOR_LINES)
+
+  for (let line = startLine; line < endLine; line++) {
+    const text = document.lineAt(line).text
+
+    // Stop at the function definition
+    if (/^\s*(async\s+)?def\s/.test(text)) {
+      return undefined
+    }
+
+    const match = text.match(/\bexceptions\s*=\s*\[/)
+    if (match && match.index !== undefined) {
+      const openOffset = document.offsetAt(
+        new vscode.Position(line, match.index + match[0].length - 1)
+      )
+      return parseList(document, line + 1, openOffset)
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Find an entry by exception class name, matching dotted names by their last segment
+ */
+export function findExceptionsListEntry(
+  list: ExceptionsList,
+  exceptionClass: string
+): ExceptionsListEntry | undefined {
+  return list.entries.find(
+    (entry) => entry.name === exceptionClass || entry.name.endsWith(`.${exceptionClass}`)
+  )
+}
+
+/**
+ * Text span of one entry, with the end of its trailing comma if it has one
+ */
+interface RawEntry {
+  start: number
+  end: number
+  commaEnd?: number
+}
+
+/**
+ * Parse list entries starting at the offset of the opening bracket
+ * Comments and the contents of strings are skipped, so `#` and `,` inside them don't split entries
+ */
+function parseList(
+  document: SourceDocument,
+  line: number,
+  openOffset: number
+): ExceptionsList | undefined {
+  const text = document.getText()
+  const innerStart = openOffset + 1
+  const raw: RawEntry[] = []
+
+  let depth = 0
+  let entryStart: number | undefined
+  let entryEnd = innerStart
+  let closeOffset = -1
+
+  const endEntry = (commaEnd?: number) => {
+    if (entryStart !== undefined) {
+      raw.push({ start: entryStart, end: entryEnd, commaEnd })
+    }
+    entryStart = undefined
+  }
+
+  for (let i = innerStart; i < text.length; i++) {
+    const char = text[i]
+
+    if (char === "#") {
+      // Comment: skip to the end of the line
+      const newline = text.indexOf("\n", i)
+      if (newline < 0) {
+        break
+      }
+      i = newline
+      continue
+    }
+    if (/\s/.test(char)) {
+      continue
+    }
+    if (depth === 0 && char === "]") {
+      closeOffset = i
+      endEntry()
+      break
+    }
+    if (depth === 0 && char === ",") {
+      endEntry(i + 1)
+      continue
+    }
+
+    entryStart ??= i
+    if (char === '"' || char === "'") {
+      i = skipString(text, i)
+    } else if (char === "(" || char === "[" || char === "{") {
+      depth++
+    } else if (char === ")" || char === "]" || char === "}") {
+      depth--
+    }
+    entryEnd = i + 1
+  }
+
+  if (closeOffset < 0) {
+    return undefined
+  }
+
+  const toRange = (start: number, end: number) =>
+    new vscode.Range(document.positionAt(start), document.positionAt(end))
+
+  const entries = raw.map((entry, index): ExceptionsListEntry => {
+    let removeStart: number
+    let removeEnd: number
+    const ownLine = findOwnLine(text, entry, closeOffset)
+
+    if (raw.length === 1) {
+      // Sole entry: empty the list
+      removeStart = innerStart
+      removeEnd = closeOffset
+    } else if (ownLine) {
+      // Entry on its own line: remove the line, with its comment
+      ;[removeStart, removeEnd] = ownLine
+    } else if (index < raw.length - 1) {
+      // Remove through the start of the next entry
+      removeStart = entry.start
+      removeEnd = raw[index + 1].start
+    } else {
+      // Last entry: remove from the end of the previous entry
+      const previous = raw[index - 1]
+      removeStart = entry.commaEnd !== undefined ? (previous.commaEnd as number) : previous.end
+      removeEnd = entry.commaEnd ?? entry.end
+    }
+
+    return {
+      name: text.substring(entry.start, entry.end),
+      range: toRange(entry.start, entry.end),
+      removeRange: toRange(removeStart, removeEnd),
+    }
+  })
+
+  return {
+    line,
+    innerRange: toRange(innerStart, closeOffset),
+    entries,
+  }
+}
+
+/**
+ * Get the span of the lines an entry fills on its own, including the line break after it,
+ * when nothing but whitespace precedes it and nothing but a comment follows its comma
+ */
+function findOwnLine(
+  text: string,
+  entry: RawEntry,
+  closeOffset: number
+): [number, number] | undefined {
+  const lineStart = text.lastIndexOf("\n", entry.start - 1) + 1
+  const afterEntry = entry.commaEnd ?? entry.end
+  const newline = text.indexOf("\n", afterEntry)
+
+  if (
+    newline < 0 ||
+    newline > closeOffset ||
+    text.substring(lineStart, entry.start).trim() !== "" ||
+    !/^\s*(#.*)?$/.test(text.substring(afterEntry, newline))
+  ) {
+    return undefined
+  }
+  return [lineStart, newline + 1]
+}
+
+/**
+ * Get the offset of the closing quote of the string starting at `start`
+ * Returns the end of the line for an unterminated single-line string
+ */
+function skipString(text: string, start: number): number {
+  const quote = text.startsWith(text[start].repeat(3), start) ? text[start].repeat(3) : text[start]
+
+  for (let i = start + quote.length; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++
+    } else if (text.startsWith(quote, i)) {
+      return i + quote.length - 1
+    } else if (text[i] === "\n" && quote.length === 1) {
+      return i - 1
+    }
+  }
+  return text.length - 1
+}
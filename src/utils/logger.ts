@@ -0,0 +1,80 @@
+import * as vscode from "vscode"
+
+let outputChannel: vscode.LogOutputChannel | null = null
+
+/** Characters of process output kept in a log entry */
+const MAX_OUTPUT_LENGTH = 2000
+
+/**
+ * Get the faex log channel, creating it on first use
+ * Its level follows VS Code's log level ("Developer: Set Log Level...")
+ */
+export function getOutputChannel(): vscode.LogOutputChannel {
+  if (!outputChannel) {
+    outputChannel = vscode.window.createOutputChannel("faex", { log: true })
+  }
+  return outputChannel
+}
+
+/**
+ * Write a trace message, e.g. cache hits
+ */
+export function logTrace(message: string): void {
+  getOutputChannel().trace(message)
+}
+
+/**
+ * Write a debug message, e.g. process output
+ */
+export function logDebug(message: string): void {
+  getOutputChannel().debug(message)
+}
+
+/**
+ * Write an informational message
+ */
+export function log(message: string): void {
+  getOutputChannel().info(message)
+}
+
+/**
+ * Write a warning
+ */
+export function logWarning(message: string): void {
+  getOutputChannel().warn(message)
+}
+
+/**
+ * Write an error message
+ */
+export function logError(message: string): void {
+  getOutputChannel().error(message)
+}
+
+/**
+ * Shorten process output for the log
+ */
+export function truncateOutput(output: string): string {
+  const trimmed = output.trim()
+  if (!trimmed) {
+    return "(empty)"
+  }
+  return trimmed.length > MAX_OUTPUT_LENGTH
+    ? `${trimmed.substring(0, MAX_OUTPUT_LENGTH)}… (${trimmed.length} characters)`
+    : trimmed
+}
+
+/**
+ * Reveal the faex output channel
+ */
+export function showLogs(): void {
+  getOutputChannel().show(true)
+}
+
+/**
+ * Dispose the output channel
+ */
+export function disposeLogger(): void {
+  outputChannel?.dispose()
+  outputChannel = null
+}
@@ -0,0 +1,276 @@
+import * as vscode from "vscode"
+import * as fs from "fs"
+import * as path from "path"
+import { log, logTrace, logWarning } from "./logger"
+
+/**
+ * Settings read from `[tool.faex]` in pyproject.toml
+ */
+export interface PyprojectSettings {
+  /** Path of the pyproject.toml the settings came from */
+  file: string
+  depth?: number
+  ignore?: string[]
+  exclude?: string[]
+}
+
+type TomlValue = string | number | boolean | TomlValue[]
+
+const PYPROJECT = "pyproject.toml"
+
+/** Nearest pyproject.toml per directory and per looked-up file (null when there is none) */
+const nearestCache: Map<string, string | null> = new Map()
+/** Parsed settings per pyproject.toml */
+const settingsCache: Map<string, PyprojectSettings | null> = new Map()
+
+/**
+ * Get `[tool.faex]` settings from the pyproject.toml nearest to a resource
+ * Searches upward from the resource to its workspace folder root
+ */
+export function getPyprojectSettings(uri?: vscode.Uri): PyprojectSettings | undefined {
+  const folder = uri
+    ? vscode.workspace.getWorkspaceFolder(uri)
+    : vscode.workspace.workspaceFolders?.[0]
+  const start = uri && uri.scheme === "file" ? uri.fsPath : folder?.uri.fsPath
+  if (!start) {
+    return undefined
+  }
+
+  const file = findNearestPyproject(start, folder?.uri.fsPath)
+  return file ? (readSettings(file) ?? undefined) : undefined
+}
+
+/**
+ * Watch pyproject.toml files and call back after cached settings are dropped
+ */
+export function watchPyproject(callback: () => void): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher(`**/${PYPROJECT}`)
+
+  const reload = (uri: vscode.Uri) => {
+    nearestCache.clear()
+    settingsCache.delete(uri.fsPath)
+    log(`Reloaded faex settings from ${uri.fsPath}`)
+    callback()
+  }
+
+  watcher.onDidChange(reload)
+  watcher.onDidCreate(reload)
+  watcher.onDidDelete(reload)
+
+  return watcher
+}
+
+/**
+ * Find the nearest pyproject.toml at or above a path, stopping at root
+ * Results are cached until a pyproject.toml changes, so repeated lookups don't touch the disk
+ */
+function findNearestPyproject(start: string, root?: string): string | undefined {
+  const known = nearestCache.get(start)
+  if (known !== undefined) {
+    return known ?? undefined
+  }
+
+  let dir = isDirectory(start) ? start : path.dirname(start)
+  const visited: string[] = [start]
+
+  for (;;) {
+    const cached = nearestCache.get(dir)
+    if (cached !== undefined) {
+      return remember(visited, cached)
+    }
+
+    visited.push(dir)
+    const candidate = path.join(dir, PYPROJECT)
+    if (fs.existsSync(candidate)) {
+      return remember(visited, candidate)
+    }
+
+    const parent = path.dirname(dir)
+    if (dir === root || parent === dir) {
+      return remember(visited, null)
+    }
+    dir = parent
+  }
+}
+
+function remember(dirs: string[], file: string | null): string | undefined {
+  for (const dir of dirs) {
+    nearestCache.set(dir, file)
+  }
+  return file ?? undefined
+}
+
+function isDirectory(fsPath: string): boolean {
+  try {
+    return fs.statSync(fsPath).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Read and cache `[tool.faex]` settings from a pyproject.toml
+ */
+function readSettings(file: string): PyprojectSettings | null {
+  const cached = settingsCache.get(file)
+  if (cached !== undefined) {
+    logTrace(`Using cached faex settings from ${file}`)
+    return cached
+  }
+
+  let settings: PyprojectSettings | null = null
+  try {
+    const table = parseTable(fs.readFileSync(file, "utf8"), "tool.faex")
+    if (table) {
+      settings = {
+        file,
+        depth: typeof table.depth === "number" ? table.depth : undefined,
+        ignore: asStringArray(table.ignore),
+        exclude: asStringArray(table.exclude),
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    logWarning(`Failed to read ${file}: ${message}`)
+  }
+
+  if (settings) {
+    log(`Loaded faex settings from ${file}: ${JSON.stringify({ ...settings, file: undefined })}`)
+  }
+  settingsCache.set(file, settings)
+  return settings
+}
+
+function asStringArray(value: TomlValue | undefined): string[] | undefined {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : undefined
+}
+
+/**
+ * Parse the key/value pairs of one TOML table
+ * Supports the subset faex uses: strings, integers, booleans and (multi-line) arrays
+ */
+export function parseTable(text: string, tableName: string): Record<string, TomlValue> | undefined {
+  const lines = text.split(/\r?\n/)
+  let table: Record<string, TomlValue> | undefined
+  let inTable = false
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripComment(lines[i]).trim()
+    if (!line) {
+      continue
+    }
+
+    const header = line.match(/^\[([^[\]]+)\]$/)
+    if (header) {
+      inTable = header[1].trim() === tableName
+      if (inTable) {
+        table = table ?? {}
+      }
+      continue
+    }
+
+    if (!inTable || !table) {
+      continue
+    }
+
+    const assignment = line.match(/^([A-Za-z0-9_-]+)\s*=\s*(.*)$/)
+    if (!assignment) {
+      continue
+    }
+
+    // Arrays may span several lines
+    let raw = assignment[2]
+    while (raw.startsWith("[") && !isBalanced(raw) && i + 1 < lines.length) {
+      raw += " " + stripComment(lines[++i]).trim()
+    }
+
+    table[assignment[1]] = parseValue(raw.trim())
+  }
+
+  return table
+}
+
+function parseValue(raw: string): TomlValue {
+  if (raw.startsWith("[")) {
+    return splitArray(raw.slice(1, raw.lastIndexOf("]"))).map(parseValue)
+  }
+  if (/^".*"$/.test(raw) || /^'.*'$/.test(raw)) {
+    return raw.slice(1, -1)
+  }
+  if (raw === "true" || raw === "false") {
+    return raw === "true"
+  }
+  const number = Number(raw.replace(/_/g, ""))
+  return Number.isNaN(number) ? raw : number
+}
+
+/**
+ * Split array contents on top-level commas
+ */
+function splitArray(inner: string): string[] {
+  const items: string[] = []
+  let depth = 0
+  let quote = ""
+  let current = ""
+
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) {
+        quote = ""
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === "[") {
+      depth++
+    } else if (char === "]") {
+      depth--
+    } else if (char === "," && depth === 0) {
+      items.push(current)
+      current = ""
+      continue
+    }
+    current += char
+  }
+  items.push(current)
+
+  return items.map((item) => item.trim()).filter((item) => item.length > 0)
+}
+
+function isBalanced(raw: string): boolean {
+  let depth = 0
+  let quote = ""
+  for (const char of raw) {
+    if (quote) {
+      if (char === quote) {
+        quote = ""
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === "[") {
+      depth++
+    } else if (char === "]") {
+      depth--
+    }
+  }
+  return depth === 0
+}
+
+/**
+ * Remove a trailing `#` comment that isn't inside a string
+ */
+function stripComment(line: string): string {
+  let quote = ""
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quote) {
+      if (char === quote) {
+        quote = ""
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === "#") {
+      return line.substring(0, i)
+    }
+  }
+  return line
+}
@@ -0,0 +1,62 @@
+import * as vscode from "vscode"
+
+/**
+ * The subset of vscode.TextDocument needed to place diagnostics and edits
+ * Lets files that aren't open in an editor be handled like open documents
+ */
+export interface SourceDocument {
+  uri: vscode.Uri
+  lineCount: number
+  lineAt(line: number): { text: string }
+  getText(): string
+  offsetAt(position: vscode.Position): number
+  positionAt(offset: number): vscode.Position
+  /** Whether an open document has unsaved changes; files read from disk have none */
+  isDirty?: boolean
+}
+
+/**
+ * Get the open document for a file, or read it from disk without opening it
+ */
+export async function loadSourceDocument(uri: vscode.Uri): Promise<SourceDocument> {
+  const open = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri.toString())
+  if (open) {
+    return open
+  }
+
+  const bytes = await vscode.workspace.fs.readFile(uri)
+  return createSourceDocument(uri, new TextDecoder("utf-8").decode(bytes))
+}
+
+/**
+ * Create a source document from file content
+ */
+export function createSourceDocument(uri: vscode.Uri, text: string): SourceDocument {
+  const lines = text.split(/\r?\n/)
+
+  // Offset of the first character of each line
+  const lineOffsets: number[] = []
+  const lineBreak = /\r?\n/g
+  lineOffsets.push(0)
+  while (lineBreak.exec(text)) {
+    lineOffsets.push(lineBreak.lastIndex)
+  }
+
+  return {
+    uri,
+    lineCount: lines.length,
+    lineAt: (line) => ({ text: lines[line] ?? "" }),
+    getText: () => text,
+    offsetAt: (position) => {
+      const line = Math.min(Math.max(position.line, 0), lines.length - 1)
+      return lineOffsets[line] + Math.min(position.character, lines[line].length)
+    },
+    positionAt: (offset) => {
+      let line = 0
+      while (line + 1 < lineOffsets.length && lineOffsets[line + 1] <= offset) {
+        line++
+      }
+      return new vscode.Position(line, Math.min(offset - lineOffsets[line], lines[line].length))
+    },
+  }
+}
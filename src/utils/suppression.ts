@@ -0,0 +1,245 @@
+import * as vscode from "vscode"
+import * as path from "path"
+import { EndpointInfo, ExceptionLocation } from "../types"
+import { SourceParser } from "../analyzer/sourceIndex"
+import { SourceDocument } from "./sourceDocument"
+
+/**
+ * A `# faex: ignore` or `# faex: ignore[A, B]` comment
+ */
+export interface Suppression {
+  /** Line of the comment (0-indexed) */
+  line: number
+  /** Range of the comment text */
+  range: vscode.Range
+  /** Suppressed exception classes; undefined suppresses every class */
+  classes?: string[]
+  /** Whether the comment is the only content of its line */
+  standalone: boolean
+}
+
+const SUPPRESSION_PATTERN = /#\s*faex:\s*ignore(?:\[([^\]]*)\])?/
+
+/**
+ * Find every suppression comment in a document
+ */
+export function parseSuppressions(document: SourceDocument): Suppression[] {
+  const lines: string[] = []
+  for (let line = 0; line < document.lineCount; line++) {
+    lines.push(document.lineAt(line).text)
+  }
+  return parseSuppressionLines(lines)
+}
+
+/**
+ * Find every suppression comment in the lines of a Python file
+ * Only comments count; `# faex: ignore` inside a string literal is text
+ */
+export function parseSuppressionLines(lines: string[]): Suppression[] {
+  const suppressions: Suppression[] = []
+  let openQuote = ""
+
+  for (let line = 0; line < lines.length; line++) {
+    const text = lines[line]
+    const comment = findComment(text, openQuote)
+    openQuote = comment.openQuote
+    if (comment.start < 0) {
+      continue
+    }
+
+    const match = SUPPRESSION_PATTERN.exec(text.substring(comment.start))
+    if (!match) {
+      continue
+    }
+
+    const classes = match[1]
+      ?.split(",")
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0)
+    const start = comment.start + match.index
+
+    suppressions.push({
+      line,
+      range: new vscode.Range(line, start, line, start + match[0].length),
+      classes,
+      standalone: text.substring(0, start).trim().length === 0,
+    })
+  }
+
+  return suppressions
+}
+
+/**
+ * Find where the comment of a line starts, skipping `#` inside string literals
+ * `openQuote` is a triple quote left open by earlier lines; the one open at the end of
+ * this line is returned
+ */
+function findComment(text: string, openQuote: string): { start: number; openQuote: string } {
+  let quote = openQuote
+
+  for (let i = 0; i < text.length; i++) {
+    if (quote) {
+      if (text[i] === "\\") {
+        i++
+      } else if (text.startsWith(quote, i)) {
+        i += quote.length - 1
+        quote = ""
+      }
+    } else if (text[i] === "#") {
+      return { start: i, openQuote: "" }
+    } else if (text.startsWith('"""', i) || text.startsWith("'''", i)) {
+      quote = text.substring(i, i + 3)
+      i += 2
+    } else if (text[i] === '"' || text[i] === "'") {
+      quote = text[i]
+    }
+  }
+
+  // Only triple-quoted strings continue on the next line
+  return { start: -1, openQuote: quote.length === 3 ? quote : "" }
+}
+
+/**
+ * Check if a suppression applies to an exception class
+ */
+export function suppressionCovers(suppression: Suppression, exceptionClass: string): boolean {
+  return (
+    !suppression.classes ||
+    suppression.classes.some(
+      (name) => name === exceptionClass || name.split(".").pop() === exceptionClass
+    )
+  )
+}
+
+/**
+ * Find the suppression that silences a finding on a line, either on that line
+ * or on the endpoint (the decorator line or the standalone comment above it)
+ */
+export function findSuppression(
+  suppressions: Suppression[],
+  endpoint: EndpointInfo,
+  line: number,
+  exceptionClass: string
+): Suppression | undefined {
+  const decoratorLine = endpoint.decoratorLine - 1
+  return suppressions.find(
+    (s) =>
+      suppressionCovers(s, exceptionClass) &&
+      (s.line === line ||
+        s.line === decoratorLine ||
+        (s.line === decoratorLine - 1 && s.standalone))
+  )
+}
+
+/**
+ * Find the suppression on the line an exception is raised at, which may be in a module
+ * the endpoint calls into rather than the endpoint's file
+ */
+export function findRaiseSiteSuppression(
+  suppressions: Suppression[],
+  exception: ExceptionLocation
+): Suppression | undefined {
+  return suppressions.find(
+    (s) => s.line === exception.line - 1 && suppressionCovers(s, exception.exceptionClass)
+  )
+}
+
+/**
+ * Suppression comments of the workspace's Python files as saved on disk, for raise sites
+ * outside the analyzed file
+ */
+export class SuppressionIndex implements SourceParser {
+  private files: Map<string, Suppression[]> = new Map()
+
+  setSource(file: string, text: string | undefined): void {
+    const suppressions = text?.includes("faex") ? parseSuppressionLines(text.split(/\r?\n/)) : []
+    if (suppressions.length > 0) {
+      this.files.set(path.resolve(file), suppressions)
+    } else {
+      this.files.delete(path.resolve(file))
+    }
+  }
+
+  clear(): void {
+    this.files.clear()
+  }
+
+  /**
+   * Get the suppressions of a file
+   */
+  get(file: string): Suppression[] {
+    return this.files.get(path.resolve(file)) ?? []
+  }
+}
+
+/**
+ * Create an edit that suppresses an exception class on a line
+ * Adds the class to an existing suppression comment when there is one
+ */
+export function createLineSuppressionEdit(
+  document: vscode.TextDocument,
+  line: number,
+  exceptionClass: string
+): vscode.WorkspaceEdit {
+  const edit = new vscode.WorkspaceEdit()
+  const existing = parseSuppressions(document).find((s) => s.line === line)
+
+  if (existing) {
+    if (existing.classes && !suppressionCovers(existing, exceptionClass)) {
+      edit.replace(
+        document.uri,
+        existing.range,
+        formatSuppression([...existing.classes, exceptionClass])
+      )
+    }
+    return edit
+  }
+
+  const text = document.lineAt(line).text
+  edit.insert(
+    document.uri,
+    new vscode.Position(line, text.trimEnd().length),
+    `  ${formatSuppression([exceptionClass])}`
+  )
+  return edit
+}
+
+/**
+ * Create an edit that suppresses an exception class for a whole endpoint
+ * The comment goes on its own line above the decorator
+ */
+export function createEndpointSuppressionEdit(
+  document: vscode.TextDocument,
+  endpoint: EndpointInfo,
+  exceptionClass: string
+): vscode.WorkspaceEdit {
+  const edit = new vscode.WorkspaceEdit()
+  const decoratorLine = endpoint.decoratorLine - 1
+  const existing = parseSuppressions(document).find(
+    (s) => s.line === decoratorLine - 1 && s.standalone
+  )
+
+  if (existing) {
+    if (existing.classes && !suppressionCovers(existing, exceptionClass)) {
+      edit.replace(
+        document.uri,
+        existing.range,
+        formatSuppression([...existing.classes, exceptionClass])
+      )
+    }
+    return edit
+  }
+
+  const text = document.lineAt(decoratorLine).text
+  const indent = text.substring(0, text.length - text.trimStart().length)
+  edit.insert(
+    document.uri,
+    new vscode.Position(decoratorLine, 0),
+    `${indent}${formatSuppression([exceptionClass])}\n`
+  )
+  return edit
+}
+
+function formatSuppression(classes: string[]): string {
+  return `# faex: ignore[${classes.join(", ")}]`
+}